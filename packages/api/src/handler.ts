@@ -1,22 +1,79 @@
+import { Op } from 'sequelize';
 import { Snapshot } from '@synfutures/oyster-sdk';
 import { JSONRPC, JSONRPCError, JSONRPCErrorCode, Tracker } from '@synfutures/utils';
-import { Plugin, combineSignals } from '@synfutures/fx-core';
+import { Core, Plugin, combineSignals } from '@synfutures/fx-core';
 import { info, warn } from '@synfutures/logger';
-import { getSnapshot } from '@synfutures/base-plugins';
-import { EventPosition } from '@synfutures/db';
+import {
+    getSnapshot,
+    formatHexString,
+    compareLog,
+    findNearestSnapshotPosition,
+    isBeforeOrAt,
+    cloneSnapshot,
+    readParsedEvents,
+    saveSnapshot,
+    unpinSnapshot,
+    findPinnedSnapshots,
+    loadSnapshot,
+} from '@synfutures/base-plugins';
+import { EventPosition, Instrument as InstrumentTable, traderCondition } from '@synfutures/db';
+import {
+    formatAMM,
+    calcFundingInterval,
+    calcDepth,
+    formatRange,
+    formatAccount,
+    formatCursor,
+    formatEvent,
+    formatPairs,
+    getEventTraders,
+    isEmptyAccount,
+    isClientId,
+    isRiskThreshold,
+    isEventPosition,
+    isTimestamp,
+    parseCursor,
+} from './utils';
+import { EvictionReason, SnapshotStore } from './store';
+import { ResultStream } from './stream';
+import type { Connection } from './types';
 
 enum SnapshotErrorCode {
     Reorging = 100,
     Unavailable,
     Generating,
+    Reorged,
+    Evicted,
 }
 
+// max number of reorged snapshot ids to remember
+const maxReorgedIds = 1000;
+
+const defaultQueryEventsLimit = 100;
+
+const maxQueryEventsLimit = 1000;
+
+// max number of samples of a history query
+const maxHistorySamples = 10000;
+
+const defaultDepthLevels = 20;
+
+const maxDepthLevels = 1000;
+
+// max number of intervals of a funding history query
+const maxFundingIntervals = 1000;
+
 function snapshotId(chainId: number, position: number | EventPosition) {
     return typeof position === 'number'
         ? `${chainId}-${position}`
         : `${chainId}-${position.blockNumber}-${position.transactionIndex}-${position.logIndex}`;
 }
 
+// whether the JSON RPC method name is valid
+function isMethodName(method: any): method is string {
+    return typeof method === 'string' && /^[a-zA-Z][a-zA-Z0-9]*$/.test(method);
+}
+
 function parseSnapshotId(id: string): {
     chainId: number;
     blockNumber: number;
@@ -38,12 +95,37 @@ function parseSnapshotId(id: string): {
           };
 }
 
+export type HandlerConfig = {
+    // max number of generated snapshots
+    maxSnapshots?: number;
+
+    // max approximate serialized size of all generated snapshots in bytes
+    maxSnapshotsSize?: number;
+
+    // generated snapshots that have not been accessed for this duration will be evicted, in milliseconds
+    snapshotTTL?: number;
+};
+
 /**
  * Snapshot API handler
  */
 export class Handler extends Plugin {
     private generating = new Map<string, AbortController>();
-    private generated = new Map<string, Snapshot>();
+    private generated: SnapshotStore;
+    // snapshot id => reorg block number
+    private reorged = new Map<string, number>();
+    // pinned snapshot id => position of the saved snapshot
+    private pinned = new Map<string, EventPosition>();
+
+    constructor(core: Core, config: HandlerConfig = {}) {
+        super(core);
+
+        this.generated = new SnapshotStore({
+            maxCount: config.maxSnapshots,
+            maxSize: config.maxSnapshotsSize,
+            ttl: config.snapshotTTL,
+        });
+    }
 
     private get sdk() {
         const common = this.core.getPlugin('Common');
@@ -61,6 +143,14 @@ export class Handler extends Plugin {
         return common.events;
     }
 
+    private get db() {
+        const db = this.core.getPlugin('DB');
+        if (!db) {
+            throw new Error('missing DB plugin');
+        }
+        return db;
+    }
+
     private get subscriber() {
         const subscriber = this.core.getPlugin('Subscriber');
         if (!subscriber) {
@@ -69,6 +159,14 @@ export class Handler extends Plugin {
         return subscriber;
     }
 
+    private get blocks() {
+        const blocks = this.core.getPlugin('Blocks');
+        if (!blocks) {
+            throw new Error('missing Blocks plugin');
+        }
+        return blocks;
+    }
+
     private get snapshots() {
         const snapshots = this.core.getPlugin('Snapshots');
         if (!snapshots) {
@@ -78,12 +176,35 @@ export class Handler extends Plugin {
     }
 
     /**
-     * Handle websocket message
+     * Handle JSON-RPC message, single request or batch
      * @param msg Raw message
      * @param signal Abort signal
+     * @param connection Websocket connection, `undefined` for HTTP requests
      * @returns Response
      */
-    async handle(msg: string, signal: AbortSignal): Promise<string> {
+    async handle(msg: string, signal: AbortSignal, connection?: Connection): Promise<string> {
+        try {
+            const [batch, json] = JSONRPC.parseBatch(msg);
+
+            if (batch) {
+                // process all requests concurrently,
+                // each request has its own result or error
+                return JSON.stringify(
+                    await Promise.all(json.map((request) => this.processRequest(request, signal, connection))),
+                );
+            }
+
+            return JSON.stringify(await this.processRequest(json, signal, connection));
+        } catch (err) {
+            warn('Handler', 'handle message error:', err.message);
+
+            return JSON.stringify(JSONRPC.formatJSONRPCError(err));
+        }
+    }
+
+    // process a single request object,
+    // it must not be named `handleXxx`, otherwise it could be called by the method name
+    private async processRequest(request: any, signal: AbortSignal, connection?: Connection) {
         let _id: string | undefined = undefined;
 
         let _method: string | undefined = undefined;
@@ -91,7 +212,7 @@ export class Handler extends Plugin {
         let tracker: Tracker | undefined = undefined;
 
         try {
-            const [type, data] = JSONRPC.parse(msg);
+            const [type, data] = JSONRPC.parse(request);
 
             if (type !== 'request') {
                 _id = data.id;
@@ -106,24 +227,25 @@ export class Handler extends Plugin {
 
             _method = method;
 
-            // security check to prevent re-entry into the handle function
-            if (method === '') {
+            // security check to prevent re-entry into the handle function,
+            // only letters and digits are allowed, so fields and helpers can never be reached
+            if (!isMethodName(method)) {
                 throw new JSONRPCError(JSONRPCErrorCode.NotFound, `unknown method: ${method}`);
             }
 
             const handler = (this as any)[`handle${method[0].toUpperCase() + method.substring(1)}`];
 
-            if (!handler) {
+            if (typeof handler !== 'function' || handler === this.handle) {
                 throw new JSONRPCError(JSONRPCErrorCode.NotFound, `unknown method: ${method}`);
             }
 
             tracker = new Tracker();
 
-            return JSON.stringify(JSONRPC.formatJSONRPCResult(id, await handler.call(this, params, signal)));
+            return JSONRPC.formatJSONRPCResult(id, await handler.call(this, params, signal, connection));
         } catch (err) {
             warn('Handler', 'handle request error:', err.message);
 
-            return JSON.stringify(JSONRPC.formatJSONRPCError(err, _id));
+            return JSONRPC.formatJSONRPCError(err, _id);
         } finally {
             if (tracker) {
                 info('Handler', 'handle request:', _method, 'usage:', tracker.usage());
@@ -131,7 +253,7 @@ export class Handler extends Plugin {
         }
     }
 
-    private getSnapshotById(id?: string) {
+    private async getSnapshotById(id?: string) {
         if (id === undefined) {
             const snapshot = this.snapshots.getLatestSnapshot();
 
@@ -145,9 +267,27 @@ export class Handler extends Plugin {
         } else if (this.generating.has(id)) {
             throw new JSONRPCError(SnapshotErrorCode.Generating, 'still generating');
         } else {
-            const snapshot = this.generated.get(id);
+            let snapshot = this.generated.get(id);
+
+            if (!snapshot) {
+                const position = this.pinned.get(id);
+
+                if (position) {
+                    snapshot = await this.loadPinnedSnapshot(position);
+                }
+            }
 
             if (!snapshot) {
+                if (this.reorged.has(id)) {
+                    throw new JSONRPCError(SnapshotErrorCode.Reorged, 'reorged');
+                }
+
+                const evicted = this.generated.getEvicted(id);
+
+                if (evicted) {
+                    throw new JSONRPCError(SnapshotErrorCode.Evicted, `evicted: ${evicted.reason}`);
+                }
+
                 throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'not found');
             }
 
@@ -155,6 +295,33 @@ export class Handler extends Plugin {
         }
     }
 
+    // resolve the timestamp to the last stored block at or before it,
+    // the stored events narrow the range searched through the provider
+    private async lastBlockAtOrBefore(timestamp: number) {
+        const known = await this.events.findBlockNumbersAroundTimestamp(timestamp);
+
+        return this.blocks.findBlockNumberByTimestamp(timestamp, this.events.latestBlockNumber, known);
+    }
+
+    // resolve the timestamp to the first block at or after it
+    private async firstBlockAtOrAfter(timestamp: number) {
+        const blockNumber = await this.lastBlockAtOrBefore(timestamp - 1);
+
+        return blockNumber === undefined ? 0 : blockNumber + 1;
+    }
+
+    // resolve the inclusive block range, both ends can be block numbers or timestamps
+    private async resolveBlockRange(from: number | { timestamp: number }, to: number | { timestamp: number }) {
+        const fromBlockNumber = isTimestamp(from) ? await this.firstBlockAtOrAfter(from.timestamp) : from;
+        const toBlockNumber = isTimestamp(to) ? await this.lastBlockAtOrBefore(to.timestamp) : to;
+
+        if (toBlockNumber === undefined || fromBlockNumber < 0 || fromBlockNumber > toBlockNumber) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid range');
+        }
+
+        return { from: fromBlockNumber, to: toBlockNumber };
+    }
+
     async handleState() {
         return {
             storage: {
@@ -166,22 +333,47 @@ export class Handler extends Plugin {
 
     async handleGenerateSnapshot(
         params: {
-            blockNumber: number;
+            blockNumber?: number;
             transactionIndex?: number;
             logIndex?: number;
+            timestamp?: number;
+            persist?: boolean;
         },
         signal: AbortSignal,
+        connection?: Connection,
     ) {
         if (
             typeof params !== 'object' ||
-            typeof params.blockNumber !== 'number' ||
+            (params.blockNumber === undefined) === (params.timestamp === undefined) ||
+            (params.blockNumber !== undefined && typeof params.blockNumber !== 'number') ||
+            (params.timestamp !== undefined && !isTimestamp(params)) ||
             (params.transactionIndex !== undefined && typeof params.transactionIndex !== 'number') ||
-            (params.logIndex !== undefined && typeof params.logIndex !== 'number')
+            (params.logIndex !== undefined && typeof params.logIndex !== 'number') ||
+            (params.persist !== undefined && typeof params.persist !== 'boolean')
         ) {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
         }
 
-        const { blockNumber, transactionIndex, logIndex } = params;
+        const { transactionIndex, logIndex } = params;
+
+        let blockNumber: number;
+
+        if (params.timestamp !== undefined) {
+            if (transactionIndex !== undefined || logIndex !== undefined) {
+                throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+            }
+
+            // the last event at or before the timestamp is the last event of the block
+            const _blockNumber = await this.lastBlockAtOrBefore(params.timestamp);
+
+            if (_blockNumber === undefined) {
+                throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'block not found');
+            }
+
+            blockNumber = _blockNumber;
+        } else {
+            blockNumber = params.blockNumber!;
+        }
 
         let to: number | EventPosition;
 
@@ -197,8 +389,15 @@ export class Handler extends Plugin {
 
         if (this.generating.has(snapId)) {
             throw new JSONRPCError(SnapshotErrorCode.Generating, 'still generating');
-        } else if (this.generated.has(snapId)) {
+        } else if (this.generated.retain(snapId, connection)) {
             // already exists
+            if (params.persist && !this.pinned.has(snapId)) {
+                await this.pinSnapshot(snapId);
+            }
+
+            return snapId;
+        } else if (this.pinned.has(snapId)) {
+            // already persisted, will be loaded when used
             return snapId;
         }
 
@@ -213,61 +412,317 @@ export class Handler extends Plugin {
                 this.sdk,
                 this.events,
                 to,
-                undefined,
+                await this.findBaseSnapshot(to),
                 false,
                 combineSignals([aborter.signal, signal]),
             );
 
+            // the actual location of the snapshot may be different from the specified one,
+            // and another id needs to be saved.
+            const ids = Array.from(new Set([snapId, snapshotId(this.sdk.ctx.chainId, position)]));
+
             // save to memory
-            this.generated.set(snapId, snapshot);
+            if (!this.generated.set(ids, snapshot, connection)) {
+                throw new JSONRPCError(SnapshotErrorCode.Evicted, 'evicted: closed');
+            }
 
-            const underlyingSnapId = snapshotId(this.sdk.ctx.chainId, position);
+            for (const id of ids) {
+                this.reorged.delete(id);
+            }
 
-            if (underlyingSnapId !== snapId) {
-                // the actual location of the snapshot may be different from the specified one,
-                // and another copy needs to be saved.
-                this.generated.set(underlyingSnapId, snapshot);
+            if (params.persist) {
+                await this.pinSnapshot(snapId);
             }
 
             return snapId;
+        } catch (err) {
+            if (aborter.signal.aborted) {
+                throw new JSONRPCError(SnapshotErrorCode.Reorged, 'reorged');
+            }
+
+            throw err;
         } finally {
             this.generating.delete(snapId);
         }
     }
 
+    // pin the generated snapshot and all its ids in the database so that it survives restarts
+    private async pinSnapshot(id: string) {
+        const snapshot = this.generated.get(id);
+        const ids = this.generated.aliases(id);
+
+        // the exact position of the snapshot
+        const position = ids
+            .map((id) => parseSnapshotId(id))
+            .find(({ transactionIndex, logIndex }) => transactionIndex !== undefined && logIndex !== undefined);
+
+        if (!snapshot || !position) {
+            throw new JSONRPCError(SnapshotErrorCode.Unavailable, 'unavailable');
+        }
+
+        const { blockNumber, transactionIndex, logIndex } = position as EventPosition;
+
+        await this.db.sequelize.transaction((transaction) =>
+            saveSnapshot(this.sdk.ctx.chainId, snapshot, { blockNumber, transactionIndex, logIndex }, transaction, ids),
+        );
+
+        for (const id of ids) {
+            this.pinned.set(id, { blockNumber, transactionIndex, logIndex });
+        }
+    }
+
+    // unpin the ids of the saved snapshot at the position
+    private unpinSnapshot(position: EventPosition, ids: string[]) {
+        return this.db.sequelize.transaction((transaction) =>
+            unpinSnapshot(this.sdk.ctx.chainId, position, ids, transaction),
+        );
+    }
+
+    // unpin the reorged ids, the ids of the same snapshot are unpinned together
+    private async unpinReorged(reorged: Map<string, EventPosition>) {
+        const rows = new Map<string, { position: EventPosition; ids: string[] }>();
+
+        for (const [id, position] of reorged) {
+            const key = formatCursor(position);
+            const row = rows.get(key);
+
+            if (row) {
+                row.ids.push(id);
+            } else {
+                rows.set(key, { position, ids: [id] });
+            }
+        }
+
+        for (const { position, ids } of rows.values()) {
+            try {
+                await this.unpinSnapshot(position, ids);
+            } catch (err) {
+                warn('Handler', 'unpin snapshot error:', ids, err);
+            }
+        }
+    }
+
+    // pinned ids of the saved snapshot at the position
+    private pinnedIdsAt(position: EventPosition) {
+        return Array.from(this.pinned)
+            .filter(([, _position]) => compareLog(_position, position) === 0)
+            .map(([id]) => id);
+    }
+
+    // load the pinned snapshot from the database and save it to memory with all its pinned ids
+    private async loadPinnedSnapshot(position: EventPosition): Promise<Snapshot | undefined> {
+        const snapshot = await loadSnapshot(this.sdk, position);
+
+        if (!snapshot) {
+            return undefined;
+        }
+
+        this.generated.set(this.pinnedIdsAt(position), snapshot);
+
+        return snapshot;
+    }
+
+    // find the nearest snapshot before the position among the generated snapshots,
+    // returns `undefined` if the nearest one is in the database,
+    // the live snapshot is never used, it may lack the events stored out of order before its position
+    private async findBaseSnapshot(to: number | EventPosition) {
+        let nearest: { id: string; position: EventPosition } | undefined;
+
+        const isNearer = (position: EventPosition) =>
+            isBeforeOrAt(position, to) && (!nearest || compareLog(position, nearest.position) > 0);
+
+        for (const id of this.generated.keys()) {
+            const { blockNumber, transactionIndex, logIndex } = parseSnapshotId(id);
+
+            // the exact position is unknown
+            if (transactionIndex === undefined || logIndex === undefined) {
+                continue;
+            }
+
+            const position = { blockNumber, transactionIndex, logIndex };
+
+            if (isNearer(position)) {
+                nearest = { id, position };
+            }
+        }
+
+        if (!nearest) {
+            return undefined;
+        }
+
+        const dbPosition = await findNearestSnapshotPosition(this.sdk.ctx.chainId, to);
+
+        if (dbPosition && compareLog(dbPosition, nearest.position) > 0) {
+            return undefined;
+        }
+
+        const snapshot = this.generated.get(nearest.id);
+
+        if (!snapshot) {
+            return undefined;
+        }
+
+        return { snapshot: cloneSnapshot(this.sdk, snapshot), position: nearest.position };
+    }
+
     async handleClearSnapshot(params: string) {
         if (typeof params !== 'string') {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
         }
 
-        const snapshot = this.generated.get(params);
+        const position = this.pinned.get(params);
 
-        if (!snapshot) {
-            return false;
-        }
+        if (position) {
+            // unpin all identical snapshots
+            const ids = this.pinnedIdsAt(position);
 
-        // delete all identical snapshots
-        for (const [id, snap] of this.generated) {
-            if (snapshot === snap) {
-                this.generated.delete(id);
+            await this.unpinSnapshot(position, ids);
+
+            for (const id of ids) {
+                this.pinned.delete(id);
             }
         }
 
-        return true;
+        // delete all identical snapshots
+        return this.generated.delete(params) || !!position;
     }
 
     async handleListSnapshots() {
         const response: {
-            [id: string]: { chainId: number; blockNumber: number; transactionIndex?: number; logIndex?: number };
+            [id: string]: {
+                chainId: number;
+                blockNumber: number;
+                transactionIndex?: number;
+                logIndex?: number;
+                size?: number;
+                owners?: number;
+                shared?: boolean;
+                createdAt?: number;
+                accessedAt?: number;
+                evicted?: { reason: EvictionReason; timestamp: number };
+                pinned?: boolean;
+            };
         } = {};
 
-        for (const id of this.generated.keys()) {
-            response[id] = parseSnapshotId(id);
+        const { stored, evicted } = this.generated.list();
+
+        for (const [id, info] of evicted) {
+            response[id] = { ...parseSnapshotId(id), evicted: info };
+        }
+
+        // pinned snapshots are loaded when used
+        for (const id of this.pinned.keys()) {
+            response[id] = { ...parseSnapshotId(id), pinned: true };
+        }
+
+        for (const [id, info] of stored) {
+            response[id] = { ...parseSnapshotId(id), ...info, pinned: this.pinned.has(id) };
         }
 
         return response;
     }
 
+    async handleExportSnapshot(params?: { id?: string }) {
+        if (
+            params !== undefined &&
+            (typeof params !== 'object' || (params.id !== undefined && typeof params.id !== 'string'))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (params?.id === undefined) {
+            // the latest snapshot is taken together with its position
+            const latest = await this.snapshots.serializeLatestSnapshot();
+
+            if (latest === false) {
+                throw new JSONRPCError(SnapshotErrorCode.Reorging, 'reorging');
+            } else if (!latest) {
+                throw new JSONRPCError(SnapshotErrorCode.Unavailable, 'unavailable');
+            }
+
+            return { ...latest.position, snapshot: latest.snapshot };
+        }
+
+        const snapshot = await this.getSnapshotById(params.id);
+
+        const { blockNumber, transactionIndex, logIndex } = parseSnapshotId(params.id);
+
+        return {
+            blockNumber,
+            transactionIndex,
+            logIndex,
+            snapshot: snapshot.serialize(),
+        };
+    }
+
+    async handleListInstruments(params?: { id?: string }) {
+        if (
+            params !== undefined &&
+            (typeof params !== 'object' || (params.id !== undefined && typeof params.id !== 'string'))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        const snapshot = await this.getSnapshotById(params?.id);
+
+        const instruments = await InstrumentTable.findAll({ where: { chainId: this.sdk.ctx.chainId } });
+
+        return instruments.map((instrument) => {
+            const address = '0x' + instrument.address;
+
+            const instrumentState = snapshot.instruments.get(address);
+
+            return {
+                address,
+                symbol: instrument.symbol,
+                base: '0x' + instrument.base,
+                quote: '0x' + instrument.quote,
+                index: '0x' + instrument.index,
+                pairs: instrumentState ? formatPairs(instrumentState) : [],
+            };
+        });
+    }
+
+    async handleListPairs(params?: { id?: string; instrument?: string }) {
+        if (
+            params !== undefined &&
+            (typeof params !== 'object' ||
+                (params.id !== undefined && typeof params.id !== 'string') ||
+                (params.instrument !== undefined && typeof params.instrument !== 'string'))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        const snapshot = await this.getSnapshotById(params?.id);
+
+        const instruments = await InstrumentTable.findAll({
+            where:
+                params?.instrument !== undefined
+                    ? { chainId: this.sdk.ctx.chainId, address: formatHexString(params.instrument) }
+                    : { chainId: this.sdk.ctx.chainId },
+        });
+
+        const pairs: { instrument: string; symbol: string; expiry: number; status: number; timestamp: number }[] = [];
+
+        for (const instrument of instruments) {
+            const address = '0x' + instrument.address;
+
+            const instrumentState = snapshot.instruments.get(address);
+
+            if (instrumentState) {
+                for (const pair of formatPairs(instrumentState)) {
+                    pairs.push({
+                        instrument: address,
+                        symbol: instrument.symbol,
+                        ...pair,
+                    });
+                }
+            }
+        }
+
+        return pairs;
+    }
+
     async handleQueryAccount(params: { id?: string; address: string; instrument: string; expiry: number }) {
         if (
             typeof params !== 'object' ||
@@ -279,7 +734,7 @@ export class Handler extends Plugin {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
         }
 
-        const snapshot = this.getSnapshotById(params.id);
+        const snapshot = await this.getSnapshotById(params.id);
 
         const account = snapshot.instruments
             .get(params.instrument.toLowerCase())
@@ -290,47 +745,175 @@ export class Handler extends Plugin {
             throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'account not found');
         }
 
-        const orders: any = {};
+        return formatAccount(account);
+    }
+
+    async handleQueryRange(params: { id?: string; address: string; instrument: string; expiry: number; rid?: number }) {
+        if (
+            typeof params !== 'object' ||
+            (params.id !== undefined && typeof params.id !== 'string') ||
+            typeof params.address !== 'string' ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (params.rid !== undefined && typeof params.rid !== 'number')
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        const snapshot = await this.getSnapshotById(params.id);
 
-        for (const oid of account.oids) {
-            const order = account.orders.get(oid);
+        const instrumentState = snapshot.instruments.get(params.instrument.toLowerCase());
 
-            orders[oid.toString()] = {
-                balance: order?.balance.toString(),
-                size: order?.size.toString(),
-            };
+        const amm = instrumentState?.pairStates.get(params.expiry)?.amm;
+
+        const account = instrumentState?.accounts.get(params.expiry)?.get(params.address.toLowerCase());
+
+        if (!amm || !account) {
+            throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'account not found');
         }
 
-        const ranges: any = {};
+        const rids: number[] = params.rid === undefined ? account.rids : [params.rid];
+
+        const ranges: ReturnType<typeof formatRange>[] = [];
 
-        for (const rid of account.rids) {
+        for (const rid of rids) {
             const range = account.ranges.get(rid);
 
-            ranges[rid.toString()] = {
-                liquidity: range?.liquidity.toString(),
-                entryFeeIndex: range?.entryFeeIndex.toString(),
-                balance: range?.balance.toString(),
-                sqrtEntryPX96: range?.sqrtEntryPX96.toString(),
-            };
+            if (!range) {
+                throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'range not found');
+            }
+
+            ranges.push(formatRange(rid, range, amm));
+        }
+
+        return ranges;
+    }
+
+    async handleQueryAccountHistory(
+        params: {
+            address: string;
+            instrument: string;
+            expiry: number;
+            from: number | { timestamp: number };
+            to: number | { timestamp: number };
+            stream?: string;
+        },
+        signal: AbortSignal,
+        connection?: Connection,
+    ) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (!Number.isInteger(params.from) && !isTimestamp(params.from)) ||
+            (!Number.isInteger(params.to) && !isTimestamp(params.to)) ||
+            (params.stream !== undefined && typeof params.stream !== 'string')
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (params.stream !== undefined && !connection) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'streaming requires websocket');
+        }
+
+        const { expiry } = params;
+
+        const { from, to } = await this.resolveBlockRange(params.from, params.to);
+
+        const address = formatHexString(params.address);
+
+        const instrument = params.instrument.toLowerCase();
+
+        // the snapshot at the end of the previous block of `from`
+        const { snapshot, position } = await getSnapshot(
+            this.sdk,
+            this.events,
+            from - 1,
+            await this.findBaseSnapshot(from - 1),
+            false,
+            signal,
+        );
+
+        const stream = new ResultStream<any>(params.stream, connection);
+
+        // the block to continue from if the records are truncated
+        let next: number | undefined = undefined;
+        // the block of the latest processed event
+        let latest = position.blockNumber;
+
+        for await (const { log, parsedLog } of readParsedEvents(this.events, position, to, signal)) {
+            if (stream.count >= maxHistorySamples && log.blockNumber > latest) {
+                // stop at the block boundary
+                next = log.blockNumber;
+                break;
+            }
+
+            await snapshot.processParsedLog(log, parsedLog);
+
+            latest = log.blockNumber;
+
+            if (
+                log.address.toLowerCase() !== instrument ||
+                (typeof parsedLog.args.expiry === 'number' && parsedLog.args.expiry !== expiry) ||
+                !getEventTraders(parsedLog).has(address)
+            ) {
+                continue;
+            }
+
+            const account = snapshot.instruments
+                .get(instrument)
+                ?.accounts.get(expiry)
+                ?.get('0x' + address);
+
+            stream.push({
+                blockNumber: log.blockNumber,
+                transactionIndex: log.transactionIndex,
+                logIndex: log.logIndex,
+                name: parsedLog.name,
+                account: account ? formatAccount(account) : undefined,
+            });
         }
 
         return {
-            onumber: account.onumber,
-            rnumber: account.rnumber,
-            oids: account.oids,
-            rids: account.rids,
-            position: {
-                balance: account.position.balance.toString(),
-                size: account.position.size.toString(),
-                entryNotional: account.position.entryNotional.toString(),
-                entrySocialLossIndex: account.position.entrySocialLossIndex.toString(),
-                entryFundingIndex: account.position.entryFundingIndex.toString(),
-            },
-            orders,
-            ranges,
+            count: stream.count,
+            records: stream.finish(),
+            next,
         };
     }
 
+    async handleQueryTraderPortfolio(params: { id?: string; address: string }) {
+        if (
+            typeof params !== 'object' ||
+            (params.id !== undefined && typeof params.id !== 'string') ||
+            typeof params.address !== 'string'
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        const snapshot = await this.getSnapshotById(params.id);
+
+        const address = params.address.toLowerCase();
+
+        const portfolio: ({ instrument: string; expiry: number } & ReturnType<typeof formatAccount>)[] = [];
+
+        for (const [instrument, instrumentState] of snapshot.instruments) {
+            for (const [expiry, accounts] of instrumentState.accounts) {
+                const account = accounts.get(address);
+
+                if (account && !isEmptyAccount(account)) {
+                    portfolio.push({
+                        instrument,
+                        expiry,
+                        ...formatAccount(account),
+                    });
+                }
+            }
+        }
+
+        return portfolio;
+    }
+
     async handleQueryAMM(params: { id?: string; instrument: string; expiry: number }) {
         if (
             typeof params !== 'object' ||
@@ -341,7 +924,7 @@ export class Handler extends Plugin {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
         }
 
-        const snapshot = this.getSnapshotById(params.id);
+        const snapshot = await this.getSnapshotById(params.id);
 
         const amm = snapshot.instruments.get(params.instrument.toLowerCase())?.pairStates.get(params.expiry)?.amm;
 
@@ -349,49 +932,566 @@ export class Handler extends Plugin {
             throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'amm not found');
         }
 
+        return formatAMM(amm);
+    }
+
+    async handleQueryDepth(params: { id?: string; instrument: string; expiry: number; levels?: number }) {
+        if (
+            typeof params !== 'object' ||
+            (params.id !== undefined && typeof params.id !== 'string') ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (params.levels !== undefined &&
+                (!Number.isInteger(params.levels) || params.levels <= 0 || params.levels > maxDepthLevels))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        const snapshot = await this.getSnapshotById(params.id);
+
+        const pairState = snapshot.instruments.get(params.instrument.toLowerCase())?.pairStates.get(params.expiry);
+
+        if (!pairState) {
+            throw new JSONRPCError(JSONRPCErrorCode.NotFound, 'amm not found');
+        }
+
+        const { amm, pearls } = pairState;
+
         return {
-            timestamp: amm.timestamp,
-            status: amm.status,
             tick: amm.tick,
             sqrtPX96: amm.sqrtPX96.toString(),
             liquidity: amm.liquidity.toString(),
-            totalLiquidity: amm.totalLiquidity.toString(),
-            involvedFund: amm.involvedFund.toString(),
-            openInterests: amm.openInterests.toString(),
-            feeIndex: amm.feeIndex.toString(),
-            protocolFee: amm.protocolFee.toString(),
-            totalLong: amm.totalLong.toString(),
-            totalShort: amm.totalShort.toString(),
-            longSocialLossIndex: amm.longSocialLossIndex.toString(),
-            shortSocialLossIndex: amm.shortSocialLossIndex.toString(),
-            longFundingIndex: amm.longFundingIndex.toString(),
-            shortFundingIndex: amm.shortFundingIndex.toString(),
-            insuranceFund: amm.insuranceFund.toString(),
-            settlementPrice: amm.settlementPrice.toString(),
+            ...calcDepth(amm, pearls, params.levels ?? defaultDepthLevels),
         };
     }
 
-    async handleSubscribeOrderFilled(params: { address: string }) {
-        if (typeof params !== 'object' || typeof params.address !== 'string') {
+    async handleQueryAMMHistory(
+        params: {
+            instrument: string;
+            expiry: number;
+            from: number | { timestamp: number };
+            to: number | { timestamp: number };
+            step?: number;
+            stream?: string;
+        },
+        signal: AbortSignal,
+        connection?: Connection,
+    ) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (!Number.isInteger(params.from) && !isTimestamp(params.from)) ||
+            (!Number.isInteger(params.to) && !isTimestamp(params.to)) ||
+            (params.step !== undefined && (!Number.isInteger(params.step) || params.step <= 0)) ||
+            (params.stream !== undefined && typeof params.stream !== 'string')
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (params.stream !== undefined && !connection) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'streaming requires websocket');
+        }
+
+        const { expiry, step } = params;
+
+        const { from, to } = await this.resolveBlockRange(params.from, params.to);
+
+        if (step !== undefined && Math.floor((to - from) / step) + 1 > maxHistorySamples) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'too many samples');
+        }
+
+        const instrument = params.instrument.toLowerCase();
+
+        // the snapshot at the end of the previous block of `from`
+        const { snapshot, position } = await getSnapshot(
+            this.sdk,
+            this.events,
+            from - 1,
+            await this.findBaseSnapshot(from - 1),
+            false,
+            signal,
+        );
+
+        const stream = new ResultStream<any>(params.stream, connection);
+
+        const sample = (blockNumber: number, event?: { name: string; transactionIndex: number; logIndex: number }) => {
+            const amm = snapshot.instruments.get(instrument)?.pairStates.get(expiry)?.amm;
+
+            // the pair may not exist yet
+            if (amm) {
+                stream.push({ blockNumber, ...event, ...formatAMM(amm) });
+            }
+        };
+
+        // the next block to be sampled if step is specified
+        let nextSample = from;
+        // the block to continue from if the samples are truncated
+        let next: number | undefined = undefined;
+        // the block of the latest processed event
+        let latest = position.blockNumber;
+
+        for await (const { log, parsedLog } of readParsedEvents(this.events, position, to, signal)) {
+            if (step !== undefined) {
+                // all events before the block have been processed
+                while (nextSample <= to && nextSample < log.blockNumber) {
+                    sample(nextSample);
+                    nextSample += step;
+                }
+            } else if (stream.count >= maxHistorySamples && log.blockNumber > latest) {
+                // stop at the block boundary
+                next = log.blockNumber;
+                break;
+            }
+
+            await snapshot.processParsedLog(log, parsedLog);
+
+            latest = log.blockNumber;
+
+            if (
+                step === undefined &&
+                log.address.toLowerCase() === instrument &&
+                (typeof parsedLog.args.expiry !== 'number' || parsedLog.args.expiry === expiry)
+            ) {
+                sample(log.blockNumber, {
+                    name: parsedLog.name,
+                    transactionIndex: log.transactionIndex,
+                    logIndex: log.logIndex,
+                });
+            }
+        }
+
+        if (step !== undefined) {
+            // no more events
+            while (nextSample <= to) {
+                sample(nextSample);
+                nextSample += step;
+            }
+        }
+
+        return {
+            count: stream.count,
+            samples: stream.finish(),
+            next,
+        };
+    }
+
+    async handleQueryFundingHistory(
+        params: {
+            instrument: string;
+            expiry: number;
+            from: number | { timestamp: number };
+            to: number | { timestamp: number };
+            step?: number;
+        },
+        signal: AbortSignal,
+    ) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (!Number.isInteger(params.from) && !isTimestamp(params.from)) ||
+            (!Number.isInteger(params.to) && !isTimestamp(params.to)) ||
+            (params.step !== undefined && (!Number.isInteger(params.step) || params.step <= 0))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        const { expiry } = params;
+
+        const { from, to } = await this.resolveBlockRange(params.from, params.to);
+
+        const step = params.step ?? to - from + 1;
+
+        if (Math.ceil((to - from + 1) / step) > maxFundingIntervals) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'too many intervals');
+        }
+
+        const instrument = params.instrument.toLowerCase();
+
+        // interval `i` starts after block `boundaries[i]` and ends at block `boundaries[i + 1]`
+        const boundaries: number[] = [];
+        for (let boundary = from - 1; boundary < to; boundary += step) {
+            boundaries.push(boundary);
+        }
+        boundaries.push(to);
+
+        // the snapshot at the end of the first boundary
+        const { snapshot, position } = await getSnapshot(
+            this.sdk,
+            this.events,
+            from - 1,
+            await this.findBaseSnapshot(from - 1),
+            false,
+            signal,
+        );
+
+        const states: any[] = [];
+
+        const capture = () => {
+            const amm = snapshot.instruments.get(instrument)?.pairStates.get(expiry)?.amm;
+
+            // the pair may not exist yet
+            states.push(
+                amm && {
+                    sqrtPX96: amm.sqrtPX96,
+                    longFundingIndex: amm.longFundingIndex,
+                    shortFundingIndex: amm.shortFundingIndex,
+                    feeIndex: amm.feeIndex,
+                },
+            );
+        };
+
+        capture();
+
+        for await (const { log, parsedLog } of readParsedEvents(this.events, position, to, signal)) {
+            // all events before the block have been processed
+            while (states.length < boundaries.length && boundaries[states.length] < log.blockNumber) {
+                capture();
+            }
+
+            await snapshot.processParsedLog(log, parsedLog);
+        }
+
+        // no more events
+        while (states.length < boundaries.length) {
+            capture();
+        }
+
+        const timestamps = await this.blocks.getTimestamps(boundaries.map((boundary) => Math.max(boundary, 0)));
+
+        const intervals: any[] = [];
+
+        for (let i = 0; i + 1 < boundaries.length; i++) {
+            const start = states[i];
+            const end = states[i + 1];
+
+            if (!start || !end) {
+                continue;
+            }
+
+            const fromTimestamp = timestamps.get(Math.max(boundaries[i], 0))!;
+            const toTimestamp = timestamps.get(boundaries[i + 1])!;
+
+            intervals.push({
+                from: boundaries[i] + 1,
+                to: boundaries[i + 1],
+                fromTimestamp,
+                toTimestamp,
+                ...calcFundingInterval(start, end, toTimestamp - fromTimestamp),
+            });
+        }
+
+        return { intervals };
+    }
+
+    async handleQueryEvents(
+        params: {
+            from?: number | EventPosition | { timestamp: number };
+            to?: number | EventPosition | { timestamp: number };
+            names?: string | string[];
+            address?: string;
+            trader?: string;
+            cursor?: string;
+            limit?: number;
+        },
+        signal: AbortSignal,
+    ) {
+        if (
+            typeof params !== 'object' ||
+            (params.from !== undefined &&
+                typeof params.from !== 'number' &&
+                !isEventPosition(params.from) &&
+                !isTimestamp(params.from)) ||
+            (params.to !== undefined &&
+                typeof params.to !== 'number' &&
+                !isEventPosition(params.to) &&
+                !isTimestamp(params.to)) ||
+            (params.names !== undefined &&
+                typeof params.names !== 'string' &&
+                !(Array.isArray(params.names) && params.names.every((name) => typeof name === 'string'))) ||
+            (params.address !== undefined && typeof params.address !== 'string') ||
+            (params.trader !== undefined && typeof params.trader !== 'string') ||
+            (params.cursor !== undefined && typeof params.cursor !== 'string') ||
+            (params.limit !== undefined &&
+                (!Number.isInteger(params.limit) || params.limit <= 0 || params.limit > maxQueryEventsLimit))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        let from: number | EventPosition;
+
+        if (isTimestamp(params.from)) {
+            // `from` is exclusive
+            from = (await this.firstBlockAtOrAfter(params.from.timestamp)) - 1;
+        } else {
+            from = params.from ?? 0;
+        }
+
+        let to: number | EventPosition | undefined;
+
+        if (isTimestamp(params.to)) {
+            to = await this.lastBlockAtOrBefore(params.to.timestamp);
+
+            if (to === undefined) {
+                // all blocks are after the timestamp
+                return { events: [] };
+            }
+        } else {
+            to = params.to;
+        }
+
+        if (params.cursor !== undefined) {
+            const cursor = parseCursor(params.cursor);
+
+            if (!cursor) {
+                throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid cursor');
+            }
+
+            // continue from the last event of the previous page
+            from = cursor;
+        }
+
+        const fromBlockNumber = typeof from === 'number' ? from : from.blockNumber;
+
+        const toBlockNumber =
+            to === undefined ? this.events.latestBlockNumber : typeof to === 'number' ? to : to.blockNumber;
+
+        if (to !== undefined && fromBlockNumber > toBlockNumber) {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
         }
 
-        await this.subscriber.subscribeOrderFilled(params.address);
+        if (fromBlockNumber > toBlockNumber) {
+            // nothing stored yet
+            return { events: [] };
+        }
+
+        const additional: any = {};
+
+        if (params.names !== undefined) {
+            additional.name = Array.isArray(params.names) ? { [Op.in]: params.names } : params.names;
+        }
+
+        if (params.address !== undefined) {
+            additional.address = formatHexString(params.address);
+        }
+
+        if (params.trader !== undefined) {
+            // traders are stored as checksum addresses
+            Object.assign(additional, traderCondition('0x' + formatHexString(params.trader)));
+        }
+
+        const limit = params.limit ?? defaultQueryEventsLimit;
+
+        const events: ReturnType<typeof formatEvent>[] = [];
+
+        for await (const _events of this.events.findAllOrderByBTLASC(from, to, additional, limit)) {
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+
+            for (const event of _events) {
+                events.push(formatEvent(event));
+
+                if (events.length === limit) {
+                    break;
+                }
+            }
+
+            if (events.length === limit) {
+                break;
+            }
+        }
+
+        if (events.length < limit) {
+            return { events };
+        }
+
+        // there may be more events
+        return { events, cursor: formatCursor(events[events.length - 1]) };
+    }
+
+    async handleSubscribe(params: [string, any], signal: AbortSignal, connection?: Connection) {
+        if (!Array.isArray(params) || typeof params[0] !== 'string') {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!connection) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'subscription requires websocket');
+        }
+
+        const [type, data] = params;
+
+        if (!this.subscriber.isValidSubscription(type, data)) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        return this.subscriber.subscribe(type, data, connection);
+    }
+
+    async handleUnsubscribe(params: string, signal: AbortSignal, connection?: Connection) {
+        if (typeof params !== 'string') {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!connection) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'subscription requires websocket');
+        }
+
+        return this.subscriber.unsubscribe(params, connection);
+    }
+
+    async handleSubscribeOrderFilled(params: { address: string; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        return await this.subscriber.subscribeOrderFilled(params.address, params.client);
+    }
+
+    async handleUnsubscribeOrderFilled(params: { address: string; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        await this.subscriber.unsubscribeOrderFilled(params.address, params.client);
 
         return true;
     }
 
-    async handleUnsubscribeOrderFilled(params: { address: string }) {
-        if (typeof params !== 'object' || typeof params.address !== 'string') {
+    async handleSubscribePositionChanged(params: { address: string; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        return await this.subscriber.subscribePositionChanged(params.address, params.client);
+    }
+
+    async handleUnsubscribePositionChanged(params: { address: string; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
         }
 
-        await this.subscriber.unsubscribeOrderFilled(params.address);
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        await this.subscriber.unsubscribePositionChanged(params.address, params.client);
 
         return true;
     }
 
-    private onReorged = (reorgBlockNumber: number) => {
+    async handleSubscribeAMMChanged(params: {
+        instrument: string;
+        expiry: number;
+        throttle?: boolean;
+        client?: string;
+    }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (params.throttle !== undefined && typeof params.throttle !== 'boolean') ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        return await this.subscriber.subscribeAMMChanged(
+            params.instrument,
+            params.expiry,
+            params.throttle,
+            params.client,
+        );
+    }
+
+    async handleUnsubscribeAMMChanged(params: { instrument: string; expiry: number; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.instrument !== 'string' ||
+            typeof params.expiry !== 'number' ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        await this.subscriber.unsubscribeAMMChanged(params.instrument, params.expiry, params.client);
+
+        return true;
+    }
+
+    async handleSubscribeLiquidationRisk(params: { address: string; threshold: number; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            !isRiskThreshold(params.threshold) ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        return await this.subscriber.subscribeLiquidationRisk(params.address, params.threshold, params.client);
+    }
+
+    async handleUnsubscribeLiquidationRisk(params: { address: string; client?: string }) {
+        if (
+            typeof params !== 'object' ||
+            typeof params.address !== 'string' ||
+            (params.client !== undefined && !isClientId(params.client))
+        ) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid params');
+        }
+
+        if (!this.subscriber.isAMQPEnabled) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'amqp is disabled');
+        }
+
+        await this.subscriber.unsubscribeLiquidationRisk(params.address, params.client);
+
+        return true;
+    }
+
+    private onReorged = async (reorgBlockNumber: number) => {
         for (const [id, aborter] of this.generating) {
             const { blockNumber } = parseSnapshotId(id);
 
@@ -402,19 +1502,66 @@ export class Handler extends Plugin {
             }
         }
 
+        const invalidated = new Set<string>();
+
         for (const id of this.generated.keys()) {
             const { blockNumber } = parseSnapshotId(id);
 
             if (blockNumber >= reorgBlockNumber) {
                 warn('Handler', 'reorged, remove snapshot:', id);
 
-                this.generated.delete(id);
+                this.generated.deleteId(id);
+
+                invalidated.add(id);
+            }
+        }
+
+        const unpinned = new Map<string, EventPosition>();
+
+        for (const [id, position] of this.pinned) {
+            const { blockNumber } = parseSnapshotId(id);
+
+            if (blockNumber >= reorgBlockNumber) {
+                warn('Handler', 'reorged, unpin snapshot:', id);
+
+                this.pinned.delete(id);
+
+                unpinned.set(id, position);
 
-                // TODO: maybe we need to send a notification?
+                invalidated.add(id);
             }
         }
+
+        for (const id of invalidated) {
+            this.reorged.set(id, reorgBlockNumber);
+
+            this.subscriber.notifySnapshotInvalidated(id, reorgBlockNumber);
+        }
+
+        // forget the oldest ids
+        for (const id of this.reorged.keys()) {
+            if (this.reorged.size <= maxReorgedIds) {
+                break;
+            }
+
+            this.reorged.delete(id);
+        }
+
+        await this.unpinReorged(unpinned);
     };
 
+    /**
+     * Lifecycle function
+     */
+    async onInit() {
+        await this.db.init();
+
+        // loading persistent snapshot ids
+        this.pinned = await findPinnedSnapshots(this.sdk.ctx.chainId);
+
+        info('Handler', 'pinned snapshots:', this.pinned.size);
+    }
+
     /**
      * Lifecycle function
      */
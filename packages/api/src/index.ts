@@ -73,6 +73,22 @@ yargs(hideBin(process.argv))
                     type: 'number',
                     default: 43200,
                     describe: 'Snapshot outdated duration, outdated snapshots will be automatically deleted',
+                })
+                .option('max-snapshots', {
+                    type: 'number',
+                    default: 100,
+                    describe: 'Max number of generated snapshots kept in memory',
+                })
+                .option('max-snapshots-size', {
+                    type: 'number',
+                    default: 1024,
+                    describe: 'Max approximate serialized size of generated snapshots kept in memory, in MB',
+                })
+                .option('snapshot-ttl', {
+                    type: 'number',
+                    default: 3600,
+                    describe:
+                        'Generated snapshots that have not been accessed for this duration will be evicted, in seconds',
                 }),
         async (args) => {
             // set log level by config
@@ -86,10 +102,8 @@ yargs(hideBin(process.argv))
                 throw new Error('missing database url');
             }
 
+            // AMQP is optional, notifications can be pushed through websocket
             const amqpUrl = process.env['AMQP_URL'];
-            if (!amqpUrl) {
-                throw new Error('missing amqp url');
-            }
 
             // create plugins
             core.createPlugin(plugins.DB, { url: databaseUrl });
@@ -114,7 +128,11 @@ yargs(hideBin(process.argv))
                 });
             }
 
-            core.createPlugin(Handler);
+            core.createPlugin(Handler, {
+                maxSnapshots: args.maxSnapshots,
+                maxSnapshotsSize: args.maxSnapshotsSize * 1024 * 1024,
+                snapshotTTL: args.snapshotTtl * 1000,
+            });
             core.createPlugin(Subscriber, { url: amqpUrl });
             core.createPlugin(Server, {
                 port: args.port,
@@ -159,4 +177,61 @@ yargs(hideBin(process.argv))
             }
         },
     )
+    .command(
+        'backfill-timestamps',
+        'Fill the timestamps of stored events that do not have one',
+        (args) =>
+            args
+                .option('network', {
+                    alias: 'n',
+                    demandOption: true,
+                    type: 'string',
+                    describe: 'Ethereum network',
+                })
+                .option('log-level', {
+                    alias: 'l',
+                    default: LogLevel.Info,
+                    type: 'number',
+                    describe: `Log level, silent: ${LogLevel.Silent}, info: ${LogLevel.Info}, debug: ${LogLevel.Debug}`,
+                })
+                .option('batch-size', {
+                    alias: 'b',
+                    type: 'number',
+                    default: 100,
+                    describe: 'Number of blocks queried at a time',
+                }),
+        async (args) => {
+            // set log level by config
+            setLogLevel(args.logLevel);
+
+            // create core instance
+            const core = new Core('oyster-api');
+
+            const databaseUrl = process.env['API_DB_URL'];
+            if (!databaseUrl) {
+                throw new Error('missing database url');
+            }
+
+            // create plugins
+            core.createPlugin(plugins.DB, { url: databaseUrl });
+            const common = core.createPlugin(plugins.Common, { network: args.network });
+            const blocks = core.createPlugin(plugins.Blocks);
+
+            try {
+                await core.init();
+
+                const updated = await common.events.fillTimestamps(
+                    (blockNumbers) => blocks.getTimestamps(blockNumbers),
+                    args.batchSize,
+                );
+
+                info('Main', 'backfilled events:', updated);
+
+                await core.destroy();
+            } catch (err) {
+                error('Main', 'error:', err);
+                process.exit(1);
+            }
+        },
+    )
     .parse();
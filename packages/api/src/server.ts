@@ -1,9 +1,11 @@
 import http from 'http';
+import crypto from 'crypto';
 import express from 'express';
 import expressWs from 'express-ws';
-import { Counter } from '@synfutures/utils';
+import { Counter, JSONRPC } from '@synfutures/utils';
 import { Core, Plugin } from '@synfutures/fx-core';
 import { error, info } from '@synfutures/logger';
+import type { Connection } from './types';
 
 type ServerConfig = {
     host: string;
@@ -11,7 +13,7 @@ type ServerConfig = {
 };
 
 /**
- * Websocket server
+ * Websocket and HTTP JSON-RPC server
  */
 export class Server extends Plugin {
     private server: http.Server;
@@ -31,12 +33,51 @@ export class Server extends Plugin {
         return handler;
     }
 
+    // dispatch a message to the handler,
+    // the server will wait for it to finish when stopping
+    private dispatch(msg: string, signal: AbortSignal, respond: (response: string) => void, connection?: Connection) {
+        this.counter.increase();
+
+        this.handler
+            .handle(msg, signal, connection)
+            .then(respond)
+            .catch((err) => error('Server', 'catch error:', err))
+            .finally(() => this.counter.decrease());
+    }
+
     /**
      * Lifecycle function
      */
     async onStart() {
         this.ws = expressWs(express());
 
+        this.ws.app.post('/', express.text({ type: () => true }), (req, res) => {
+            if (this.stopped) {
+                // we are closing, ignore new requests
+                res.status(503).end();
+
+                return;
+            }
+
+            const aborter = new AbortController();
+
+            this.aborters.add(aborter);
+
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    aborter.abort(new Error('http client disconnected'));
+                }
+
+                this.aborters.delete(aborter);
+            });
+
+            this.dispatch(
+                typeof req.body === 'string' ? req.body : '',
+                this.core.combineSignals(aborter.signal),
+                (response) => res.type('json').send(response),
+            );
+        });
+
         this.ws.app.ws('/', (ws, req) => {
             if (this.stopped) {
                 // we are closing, ignore new connections
@@ -55,6 +96,16 @@ export class Server extends Plugin {
 
             const combinedSignal = this.core.combineSignals(aborter.signal);
 
+            const connection: Connection = {
+                id: crypto.randomUUID(),
+                signal: aborter.signal,
+                notify: (method, params) => {
+                    if (ws.readyState === ws.OPEN) {
+                        ws.send(JSON.stringify(JSONRPC.formatJSONRPCNotify(method, params)));
+                    }
+                },
+            };
+
             ws.on('close', () => {
                 aborter.abort(new Error('websocket client disconnected'));
 
@@ -69,13 +120,7 @@ export class Server extends Plugin {
                     return;
                 }
 
-                this.counter.increase();
-
-                this.handler
-                    .handle(msg.toString(), combinedSignal)
-                    .then((response) => ws.send(response))
-                    .catch((err) => error('Server', 'catch error:', err))
-                    .finally(() => this.counter.decrease());
+                this.dispatch(msg.toString(), combinedSignal, (response) => ws.send(response), connection);
             });
         });
 
@@ -0,0 +1,356 @@
+import { Snapshot } from '@synfutures/oyster-sdk';
+import { debug } from '@synfutures/logger';
+import type { Connection } from './types';
+
+// max number of evicted snapshot ids to remember
+const maxEvictedIds = 1000;
+
+export type SnapshotStoreConfig = {
+    // max number of snapshots
+    maxCount?: number;
+
+    // max approximate serialized size of all snapshots in bytes
+    maxSize?: number;
+
+    // snapshots that have not been accessed for this duration will be evicted, in milliseconds
+    ttl?: number;
+};
+
+export type EvictionReason = 'capacity' | 'expired' | 'closed';
+
+type Entry = {
+    ids: Set<string>;
+    snapshot: Snapshot;
+    size: number;
+    // ids of the owner connections
+    owners: Set<string>;
+    // generated by HTTP requests, will not be evicted when the owners are closed
+    shared: boolean;
+    createdAt: number;
+    accessedAt: number;
+};
+
+/**
+ * LRU store of generated snapshots,
+ * bounded by count, approximate serialized size and idle time,
+ * snapshots owned by websocket connections are evicted when all owners are closed
+ */
+export class SnapshotStore {
+    // least recently used first
+    private entries = new Set<Entry>();
+    private ids = new Map<string, Entry>();
+    private owners = new Map<string, Set<Entry>>();
+    private evicted = new Map<string, { reason: EvictionReason; timestamp: number }>();
+    private totalSize = 0;
+
+    constructor(private config: SnapshotStoreConfig = {}) {}
+
+    /**
+     * Number of stored snapshots
+     */
+    get count() {
+        return this.entries.size;
+    }
+
+    /**
+     * Approximate serialized size of all stored snapshots in bytes
+     */
+    get size() {
+        return this.totalSize;
+    }
+
+    // move the entry to the end of the LRU list
+    private touch(entry: Entry) {
+        entry.accessedAt = Date.now();
+        this.entries.delete(entry);
+        this.entries.add(entry);
+    }
+
+    // remove the entry and all its ids
+    private drop(entry: Entry, reason?: EvictionReason) {
+        this.entries.delete(entry);
+        this.totalSize -= entry.size;
+
+        for (const id of entry.ids) {
+            this.ids.delete(id);
+
+            if (reason) {
+                debug('SnapshotStore', 'evict snapshot:', id, 'reason:', reason);
+
+                this.evicted.delete(id);
+                this.evicted.set(id, { reason, timestamp: Date.now() });
+            }
+        }
+
+        for (const owner of entry.owners) {
+            this.owners.get(owner)?.delete(entry);
+        }
+
+        // forget the oldest ids
+        for (const id of this.evicted.keys()) {
+            if (this.evicted.size <= maxEvictedIds) {
+                break;
+            }
+
+            this.evicted.delete(id);
+        }
+    }
+
+    // evict expired snapshots
+    private prune() {
+        if (this.config.ttl === undefined) {
+            return;
+        }
+
+        const expiredAt = Date.now() - this.config.ttl;
+
+        for (const entry of this.entries) {
+            if (entry.accessedAt > expiredAt) {
+                break;
+            }
+
+            this.drop(entry, 'expired');
+        }
+    }
+
+    // add owner to the entry
+    private own(entry: Entry, connection?: Connection) {
+        if (!connection) {
+            entry.shared = true;
+            return;
+        }
+
+        if (entry.owners.has(connection.id) || connection.signal.aborted) {
+            // the abort listener of a closed connection would never be called
+            return;
+        }
+
+        entry.owners.add(connection.id);
+
+        let entries = this.owners.get(connection.id);
+        if (!entries) {
+            this.owners.set(connection.id, (entries = new Set<Entry>()));
+
+            // cleanup when the connection is closed
+            connection.signal.addEventListener('abort', () => this.release(connection.id), { once: true });
+        }
+        entries.add(entry);
+    }
+
+    // release all snapshots owned by the connection
+    private release(owner: string) {
+        const entries = this.owners.get(owner);
+
+        if (!entries) {
+            return;
+        }
+
+        this.owners.delete(owner);
+
+        for (const entry of entries) {
+            entry.owners.delete(owner);
+
+            if (entry.owners.size === 0 && !entry.shared) {
+                this.drop(entry, 'closed');
+            }
+        }
+    }
+
+    /**
+     * Whether the snapshot exists
+     * @param id Snapshot id
+     */
+    has(id: string) {
+        this.prune();
+
+        return this.ids.has(id);
+    }
+
+    /**
+     * Get snapshot and mark it as recently used
+     * @param id Snapshot id
+     * @returns Snapshot or `undefined` if it doesn't exist
+     */
+    get(id: string) {
+        this.prune();
+
+        const entry = this.ids.get(id);
+
+        if (!entry) {
+            return undefined;
+        }
+
+        this.touch(entry);
+
+        return entry.snapshot;
+    }
+
+    /**
+     * Add an owner to the existing snapshot
+     * @param id Snapshot id
+     * @param connection Owner connection, `undefined` for HTTP requests
+     * @returns Whether the snapshot exists
+     */
+    retain(id: string, connection?: Connection) {
+        const entry = this.ids.get(id);
+
+        if (!entry) {
+            return false;
+        }
+
+        this.own(entry, connection);
+        this.touch(entry);
+
+        return true;
+    }
+
+    /**
+     * Save snapshot, the least recently used snapshots will be evicted if the capacity is exceeded
+     * @param ids All ids of the snapshot
+     * @param snapshot Snapshot
+     * @param connection Owner connection, `undefined` for HTTP requests
+     * @returns Whether the snapshot is saved, `false` if the owner connection has been closed
+     */
+    set(ids: string[], snapshot: Snapshot, connection?: Connection) {
+        if (connection?.signal.aborted) {
+            // the owner has gone
+            return false;
+        }
+
+        const now = Date.now();
+
+        const entry: Entry = {
+            ids: new Set<string>(),
+            snapshot,
+            size: this.config.maxSize === undefined ? 0 : JSON.stringify(snapshot.serialize()).length,
+            owners: new Set<string>(),
+            shared: false,
+            createdAt: now,
+            accessedAt: now,
+        };
+
+        for (const id of ids) {
+            const exists = this.ids.get(id);
+
+            if (exists) {
+                // replace the id of the existing snapshot
+                exists.ids.delete(id);
+
+                if (exists.ids.size === 0) {
+                    this.drop(exists);
+                }
+            }
+
+            entry.ids.add(id);
+            this.ids.set(id, entry);
+            this.evicted.delete(id);
+        }
+
+        this.own(entry, connection);
+        this.entries.add(entry);
+        this.totalSize += entry.size;
+
+        this.prune();
+
+        // evict the least recently used snapshots, but keep the latest one
+        for (const lru of this.entries) {
+            if (
+                lru === entry ||
+                ((this.config.maxCount === undefined || this.entries.size <= this.config.maxCount) &&
+                    (this.config.maxSize === undefined || this.totalSize <= this.config.maxSize))
+            ) {
+                break;
+            }
+
+            this.drop(lru, 'capacity');
+        }
+
+        return true;
+    }
+
+    /**
+     * Delete the snapshot and all its ids
+     * @param id Snapshot id
+     * @returns Whether the snapshot existed
+     */
+    delete(id: string) {
+        const entry = this.ids.get(id);
+
+        if (!entry) {
+            return false;
+        }
+
+        this.drop(entry);
+
+        return true;
+    }
+
+    /**
+     * Delete a single id, the snapshot will be deleted if it has no more ids
+     * @param id Snapshot id
+     * @returns Whether the id existed
+     */
+    deleteId(id: string) {
+        const entry = this.ids.get(id);
+
+        if (!entry) {
+            return false;
+        }
+
+        entry.ids.delete(id);
+        this.ids.delete(id);
+
+        if (entry.ids.size === 0) {
+            this.drop(entry);
+        }
+
+        return true;
+    }
+
+    /**
+     * Get all ids of the snapshot
+     * @param id Snapshot id
+     * @returns Snapshot ids, empty if it doesn't exist
+     */
+    aliases(id: string) {
+        const entry = this.ids.get(id);
+
+        return entry ? Array.from(entry.ids) : [];
+    }
+
+    /**
+     * Get the eviction information of the snapshot
+     * @param id Snapshot id
+     * @returns Eviction information or `undefined` if it was not evicted
+     */
+    getEvicted(id: string) {
+        return this.evicted.get(id);
+    }
+
+    /**
+     * List all stored snapshot ids
+     */
+    keys() {
+        this.prune();
+
+        return Array.from(this.ids.keys());
+    }
+
+    /**
+     * List all stored and recently evicted snapshots
+     */
+    list() {
+        this.prune();
+
+        const stored = new Map<
+            string,
+            { size: number; owners: number; shared: boolean; createdAt: number; accessedAt: number }
+        >();
+
+        for (const [id, { size, owners, shared, createdAt, accessedAt }] of this.ids) {
+            stored.set(id, { size, owners: owners.size, shared, createdAt, accessedAt });
+        }
+
+        return { stored, evicted: new Map(this.evicted) };
+    }
+}
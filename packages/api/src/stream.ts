@@ -0,0 +1,59 @@
+import type { Connection } from './types';
+
+const defaultChunkSize = 100;
+
+/**
+ * Collect the results of a request,
+ * or push them to the client through websocket in chunks if the stream id is specified
+ */
+export class ResultStream<T> {
+    private results: T[] = [];
+    private total = 0;
+
+    constructor(private stream?: string, private connection?: Connection, private chunkSize = defaultChunkSize) {}
+
+    /**
+     * Number of pushed results
+     */
+    get count() {
+        return this.total;
+    }
+
+    private get streaming() {
+        return this.stream !== undefined && this.connection !== undefined;
+    }
+
+    // send the buffered results as a chunk
+    private flush() {
+        if (this.results.length > 0) {
+            this.connection!.notify('stream', { stream: this.stream, result: this.results });
+            this.results = [];
+        }
+    }
+
+    /**
+     * Push result
+     * @param result Result
+     */
+    push(result: T) {
+        this.total++;
+        this.results.push(result);
+
+        if (this.streaming && this.results.length >= this.chunkSize) {
+            this.flush();
+        }
+    }
+
+    /**
+     * Finish the stream
+     * @returns All results or `undefined` if they have been streamed
+     */
+    finish() {
+        if (this.streaming) {
+            this.flush();
+            return undefined;
+        }
+
+        return this.results;
+    }
+}
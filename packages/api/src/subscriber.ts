@@ -1,23 +1,108 @@
+import crypto from 'crypto';
 import { ethers } from 'ethers';
 import amqplib from 'amqplib';
+import Semaphore from 'semaphore-async-await';
+import { Snapshot } from '@synfutures/oyster-sdk';
 import { FillEventObject } from '@synfutures/oyster-sdk/build/types/typechain/Instrument';
 import { Core, Plugin } from '@synfutures/fx-core';
-import { warn } from '@synfutures/logger';
-import { formatHexString } from '@synfutures/base-plugins';
+import { info, warn } from '@synfutures/logger';
+import { formatHexString, serializeEventArgs } from '@synfutures/base-plugins';
 import { Subscription } from '@synfutures/db';
+import { calcMarginRatio, calcRiskLine, formatPosition, getEventTraders, isRiskThreshold } from './utils';
+import type { Connection } from './types';
 
-const orderFilledQueue = 'order-filled';
+// AMQP notifications are published to the topic exchange,
+// the routing key starts with the topic, followed by the subscribed key
+const exchange = 'oyster-api';
+
+const orderFilledTopic = 'order-filled';
+
+const positionChangedTopic = 'position-changed';
+
+const ammChangedTopic = 'amm-changed';
+
+const liquidationRiskTopic = 'liquidation-risk';
+
+// client of the AMQP subscriptions without a client id
+const defaultClient = 'default';
+
+/**
+ * Get the AMQP queue name of the client
+ * @param client Client id
+ */
+export function clientQueue(client: string) {
+    return `${exchange}.${client}`;
+}
+
+// throttled AMM notifications will be flushed after this time if no more events arrive
+const throttleTimeout = 1000;
+
+// events that may change the position of traders
+const positionEvents = new Set(['UpdatePosition', 'Trade', 'Liquidate', 'Adjust', 'Fill', 'Sweep', 'Settle']);
+
+// pairs affected by the event, events without expiry may affect all pairs of the instrument
+function touchedExpiries(parsed: ethers.utils.LogDescription, instrumentState: any): number[] {
+    return typeof parsed.args.expiry === 'number'
+        ? [parsed.args.expiry]
+        : Array.from(instrumentState.pairStates.keys());
+}
+
+// owner of the risk states of the AMQP subscription,
+// dots are allowed in neither the address nor the client id,
+// and websocket subscription ids never start with the topic
+function riskOwner(address: string, client: string) {
+    return `${liquidationRiskTopic}.${address}.${client}`;
+}
+
+// throttled and unthrottled AMM notifications are published with different routing keys
+function ammChangedRoutingKey(key: string, throttle: boolean) {
+    return `${ammChangedTopic}.${key}` + (throttle ? '.throttled' : '');
+}
 
 type SubscriberConfig = {
-    url: string;
+    // AMQP is disabled if it is not specified
+    url?: string;
+};
+
+// websocket subscription
+type PushSubscription = {
+    id: string;
+    type: string;
+    key: string;
+    params: any;
+    connection: Connection;
 };
 
+// AMQP subscription of a client
+type QueueSubscription = {
+    options: any;
+    routingKey: string;
+};
+
+/**
+ * Send notifications through AMQP queues or websocket connections
+ */
 export class Subscriber extends Plugin {
-    private connection: amqplib.Connection;
-    private channels = new Map<string, amqplib.Channel>();
+    private connection?: amqplib.Connection;
+    private channel?: amqplib.Channel;
+
+    // AMQP subscriptions, topic => subscribed key => client id => subscription
+    private queues = new Map<string, Map<string, Map<string, QueueSubscription>>>();
+    // AMQP subscriptions are changed one by one
+    private lock = new Semaphore(1);
+
+    // throttled AMM notifications waiting for the end of the block, key => notification
+    private pendingAMMChanged = new Map<string, any>();
+    private pendingTimeout?: NodeJS.Timeout;
 
-    // TODO: positionChanged, ammChanged...
-    private orderFilled = new Set<string>();
+    // whether the account was at risk last time,
+    // subscription owner => `${instrument}-${expiry}` => at risk
+    private riskStates = new Map<string, Map<string, boolean>>();
+
+    // websocket subscriptions, indexed by id, topic and connection
+    private pushSubscriptions = new Map<string, PushSubscription>();
+    private topics = new Map<string, Set<PushSubscription>>();
+    private connections = new Map<string, Set<PushSubscription>>();
 
     constructor(core: Core, private config: SubscriberConfig) {
         super(core);
@@ -39,15 +124,66 @@ export class Subscriber extends Plugin {
         return db;
     }
 
-    private send(queue: string, data: any) {
-        const channel = this.channels.get(queue);
+    /**
+     * Whether AMQP is enabled
+     */
+    get isAMQPEnabled() {
+        return !!this.config.url;
+    }
+
+    private send(routingKey: string, data: any) {
+        if (!this.channel) {
+            warn('Subscriber', 'amqp is disabled, ignored...');
+            return;
+        }
+
+        this.channel.publish(exchange, routingKey, Buffer.from(typeof data === 'string' ? data : JSON.stringify(data)));
+    }
+
+    // whether there are any AMQP or websocket subscriptions of the key
+    private hasSubscribers(type: string, topic: string, key: string) {
+        return !!this.queues.get(topic)?.has(key) || this.topics.has(`${type}-${key}`);
+    }
+
+    // push notification to all websocket subscriptions of the topic
+    private push(type: string, key: string, data: any, filter?: (params: any) => boolean) {
+        const subscriptions = this.topics.get(`${type}-${key}`);
 
-        if (!channel) {
-            warn('Subscriber', 'missing queue:', queue, 'ignored...');
+        if (!subscriptions) {
             return;
         }
 
-        channel.sendToQueue(queue, Buffer.from(typeof data === 'string' ? data : JSON.stringify(data)));
+        for (const { id, params, connection } of subscriptions) {
+            if (!filter || filter(params)) {
+                connection.notify('subscription', { subscription: id, result: data });
+            }
+        }
+    }
+
+    // publish AMM notification to the subscriptions with the same throttling setting
+    private publishAMMChanged(key: string, notification: any, throttle: boolean) {
+        const clients = this.queues.get(ammChangedTopic)?.get(key);
+        if (clients && Array.from(clients.values()).some(({ options }) => !!options.throttle === throttle)) {
+            this.send(ammChangedRoutingKey(key, throttle), notification);
+        }
+
+        this.push('ammChanged', key, notification, (params) => !!params.throttle === throttle);
+    }
+
+    // flush throttled AMM notifications before the block number,
+    // or all of them if the block number is not specified
+    private flushAMMChanged(blockNumber?: number) {
+        for (const [key, notification] of this.pendingAMMChanged) {
+            if (blockNumber === undefined || notification.blockNumber < blockNumber) {
+                this.pendingAMMChanged.delete(key);
+                this.publishAMMChanged(key, notification, true);
+            }
+        }
+
+        if (this.pendingAMMChanged.size === 0 && this.pendingTimeout) {
+            clearTimeout(this.pendingTimeout);
+            this.pendingTimeout = undefined;
+        }
     }
 
     private onNewParsedEvent = (log: ethers.providers.Log, parsed: ethers.utils.LogDescription, processed: boolean) => {
@@ -59,96 +195,765 @@ export class Subscriber extends Plugin {
         if (parsed.name === 'Fill') {
             const args = parsed.args as unknown as FillEventObject;
 
-            if (this.orderFilled.has(formatHexString(args.trader))) {
-                this.send(orderFilledQueue, {
-                    address: args.trader,
-                    instrument: log.address,
-                    expiry: args.expiry,
-                    tick: args.tick,
-                    nonce: args.nonce,
-                });
+            const address = formatHexString(args.trader);
+
+            const notification = {
+                address: args.trader,
+                instrument: log.address,
+                expiry: args.expiry,
+                tick: args.tick,
+                nonce: args.nonce,
+            };
+
+            if (this.queues.get(orderFilledTopic)?.has(address)) {
+                this.send(`${orderFilledTopic}.${address}`, notification);
             }
+
+            this.push('orderFilled', address, notification);
         }
+    };
 
-        // TODO: UpdatePosition...
+    private onSnapshotUpdated = (
+        log: ethers.providers.Log,
+        parsed: ethers.utils.LogDescription,
+        snapshot: Snapshot,
+    ) => {
+        // a failed notifier must not break the others or the snapshot loop
+        const notifiers = [
+            // a new block has been reached, the previous blocks are complete
+            () => this.flushAMMChanged(log.blockNumber),
+            () => this.notifyPositionChanged(log, parsed, snapshot),
+            () => this.notifyAMMChanged(log, parsed, snapshot),
+            () => this.notifyLiquidationRisk(log, parsed, snapshot),
+            () => this.notifySnapshotEvent(log, parsed),
+        ];
+
+        for (const notify of notifiers) {
+            try {
+                notify();
+            } catch (err) {
+                warn('Subscriber', 'notify error:', err);
+            }
+        }
+    };
+
+    private onReorged = (reorgBlockNumber: number) => {
+        // the mirrors of the latest snapshot should download it again
+        this.push('snapshotEvents', 'all', { reorgBlockNumber });
     };
 
+    // stream the event processed by the latest snapshot, in the same order
+    private notifySnapshotEvent(log: ethers.providers.Log, parsed: ethers.utils.LogDescription) {
+        if (!this.topics.has('snapshotEvents-all')) {
+            return;
+        }
+
+        this.push('snapshotEvents', 'all', {
+            log: {
+                blockNumber: log.blockNumber,
+                blockHash: log.blockHash,
+                transactionIndex: log.transactionIndex,
+                address: log.address,
+                logIndex: log.logIndex,
+            },
+            name: parsed.name,
+            args: serializeEventArgs(parsed.args),
+        });
+    }
+
+    private notifyPositionChanged(log: ethers.providers.Log, parsed: ethers.utils.LogDescription, snapshot: Snapshot) {
+        if (!positionEvents.has(parsed.name)) {
+            return;
+        }
+
+        const instrument = log.address.toLowerCase();
+
+        const expiry: number = parsed.args.expiry;
+
+        for (const address of getEventTraders(parsed)) {
+            if (!this.hasSubscribers('positionChanged', positionChangedTopic, address)) {
+                continue;
+            }
+
+            const account = snapshot.instruments
+                .get(instrument)
+                ?.accounts.get(expiry)
+                ?.get('0x' + address);
+
+            const notification = {
+                address: '0x' + address,
+                instrument,
+                expiry,
+                event: parsed.name,
+                blockNumber: log.blockNumber,
+                transactionIndex: log.transactionIndex,
+                logIndex: log.logIndex,
+                position: account ? formatPosition(account.position) : undefined,
+            };
+
+            if (this.queues.get(positionChangedTopic)?.has(address)) {
+                this.send(`${positionChangedTopic}.${address}`, notification);
+            }
+
+            this.push('positionChanged', address, notification);
+        }
+    }
+
+    private notifyAMMChanged(log: ethers.providers.Log, parsed: ethers.utils.LogDescription, snapshot: Snapshot) {
+        const instrument = log.address.toLowerCase();
+
+        const instrumentState = snapshot.instruments.get(instrument);
+
+        if (!instrumentState) {
+            return;
+        }
+
+        for (const expiry of touchedExpiries(parsed, instrumentState)) {
+            const key = `${formatHexString(instrument)}-${expiry}`;
+
+            if (!this.hasSubscribers('ammChanged', ammChangedTopic, key)) {
+                continue;
+            }
+
+            const amm = instrumentState.pairStates.get(expiry)?.amm;
+
+            if (!amm) {
+                continue;
+            }
+
+            const notification = {
+                instrument,
+                expiry,
+                blockNumber: log.blockNumber,
+                timestamp: amm.timestamp,
+                status: amm.status,
+                tick: amm.tick,
+                sqrtPX96: amm.sqrtPX96.toString(),
+                liquidity: amm.liquidity.toString(),
+                openInterests: amm.openInterests.toString(),
+                longFundingIndex: amm.longFundingIndex.toString(),
+                shortFundingIndex: amm.shortFundingIndex.toString(),
+            };
+
+            this.publishAMMChanged(key, notification, false);
+
+            // keep the latest state of the block
+            this.pendingAMMChanged.set(key, notification);
+        }
+
+        if (this.pendingAMMChanged.size > 0 && !this.pendingTimeout) {
+            this.pendingTimeout = setTimeout(() => {
+                this.pendingTimeout = undefined;
+                this.flushAMMChanged();
+            }, throttleTimeout);
+        }
+    }
+
+    private notifyLiquidationRisk(log: ethers.providers.Log, parsed: ethers.utils.LogDescription, snapshot: Snapshot) {
+        const amqpSubscriptions = this.queues.get(liquidationRiskTopic);
+        const pushSubscriptions = Array.from(this.pushSubscriptions.values()).filter(
+            ({ type }) => type === 'liquidationRisk',
+        );
+
+        if (!amqpSubscriptions && pushSubscriptions.length === 0) {
+            return;
+        }
+
+        const instrument = log.address.toLowerCase();
+
+        const instrumentState = snapshot.instruments.get(instrument);
+
+        if (!instrumentState) {
+            return;
+        }
+
+        // maintenance margin ratio in bps
+        const mmr: number = instrumentState.setting.maintenanceMarginRatio;
+
+        for (const expiry of touchedExpiries(parsed, instrumentState)) {
+            const amm = instrumentState.pairStates.get(expiry)?.amm;
+            const accounts = instrumentState.accounts.get(expiry);
+
+            if (!amm || !accounts) {
+                continue;
+            }
+
+            const stateKey = `${instrument}-${expiry}`;
+
+            const check = (owner: string, address: string, threshold: number) => {
+                const account = accounts.get('0x' + address);
+                const marginRatio = account ? calcMarginRatio(account.position, amm.sqrtPX96) : undefined;
+
+                let states = this.riskStates.get(owner);
+
+                if (marginRatio === undefined) {
+                    // no position, reset the state
+                    states?.delete(stateKey);
+                    return;
+                }
+
+                if (!states) {
+                    this.riskStates.set(owner, (states = new Map<string, boolean>()));
+                }
+
+                const risky = marginRatio.lt(calcRiskLine(mmr, threshold));
+                const previous = states.get(stateKey);
+
+                states.set(stateKey, risky);
+
+                // only alert when crossing the risk line
+                if (previous === risky || (previous === undefined && !risky)) {
+                    return;
+                }
+
+                return {
+                    address: '0x' + address,
+                    instrument,
+                    expiry,
+                    blockNumber: log.blockNumber,
+                    marginRatio: marginRatio.toString(),
+                    maintenanceMarginRatio: mmr,
+                    threshold,
+                    risky,
+                };
+            };
+
+            for (const [address, clients] of amqpSubscriptions ?? []) {
+                for (const [client, { options, routingKey }] of clients) {
+                    const notification = check(riskOwner(address, client), address, options.threshold);
+
+                    if (notification) {
+                        this.send(routingKey, notification);
+                    }
+                }
+            }
+
+            for (const { id, key, params, connection } of pushSubscriptions) {
+                const notification = check(id, key, params.threshold);
+
+                if (notification) {
+                    connection.notify('subscription', { subscription: id, result: notification });
+                }
+            }
+        }
+    }
+
+    // generate the topic key of the websocket subscription
+    private subscriptionKey(type: string, params: any) {
+        if (type === 'ammChanged') {
+            return `${formatHexString(params.instrument)}-${params.expiry}`;
+        }
+
+        if (type === 'snapshotInvalidated' || type === 'snapshotEvents') {
+            // not keyed, snapshot invalidated notifications are filtered by id when pushing
+            return 'all';
+        }
+
+        return formatHexString(params.address);
+    }
+
     /**
-     * Subscribe order filled event
-     * @param address User address
-     * @param persist Is persistence required?
+     * Whether the websocket subscription type and params are valid
+     * @param type Subscription type
+     * @param params Subscription params
      */
-    async subscribeOrderFilled(address: string, persist = true) {
-        address = formatHexString(address);
+    isValidSubscription(type: string, params: any) {
+        if (type === 'orderFilled' || type === 'positionChanged') {
+            return typeof params === 'object' && params !== null && typeof params.address === 'string';
+        }
 
-        if (persist) {
-            const exists = await Subscription.findOne({
-                where: {
-                    chainId: this.sdk.ctx.chainId,
-                    type: orderFilledQueue,
-                    data: { address },
-                },
-            });
+        if (type === 'liquidationRisk') {
+            return (
+                typeof params === 'object' &&
+                params !== null &&
+                typeof params.address === 'string' &&
+                isRiskThreshold(params.threshold)
+            );
+        }
+
+        // `undefined` params are serialized as `null` in the params array
+        if (type === 'snapshotInvalidated') {
+            return (
+                params === undefined ||
+                params === null ||
+                (typeof params === 'object' && (params.id === undefined || typeof params.id === 'string'))
+            );
+        }
+
+        if (type === 'snapshotEvents') {
+            return params === undefined || params === null;
+        }
+
+        if (type === 'ammChanged') {
+            return (
+                typeof params === 'object' &&
+                params !== null &&
+                typeof params.instrument === 'string' &&
+                typeof params.expiry === 'number' &&
+                (params.throttle === undefined || typeof params.throttle === 'boolean')
+            );
+        }
+
+        return false;
+    }
+
+    /**
+     * Subscribe through websocket,
+     * the subscription will be removed when the connection is closed
+     * @param type Subscription type
+     * @param params Subscription params
+     * @param connection Websocket connection
+     * @returns Subscription id
+     */
+    subscribe(type: string, params: any, connection: Connection) {
+        if (!this.isValidSubscription(type, params)) {
+            throw new Error('invalid subscription');
+        }
+
+        if (connection.signal.aborted) {
+            throw new Error('connection closed');
+        }
+
+        const subscription: PushSubscription = {
+            id: '0x' + crypto.randomBytes(16).toString('hex'),
+            type,
+            key: this.subscriptionKey(type, params),
+            params,
+            connection,
+        };
+
+        const topic = `${subscription.type}-${subscription.key}`;
+
+        let subscriptions = this.topics.get(topic);
+        if (!subscriptions) {
+            this.topics.set(topic, (subscriptions = new Set<PushSubscription>()));
+        }
+        subscriptions.add(subscription);
+
+        let connectionSubscriptions = this.connections.get(connection.id);
+        if (!connectionSubscriptions) {
+            this.connections.set(connection.id, (connectionSubscriptions = new Set<PushSubscription>()));
+
+            // cleanup when the connection is closed
+            connection.signal.addEventListener('abort', () => this.unsubscribeAll(connection), { once: true });
+        }
+        connectionSubscriptions.add(subscription);
+
+        this.pushSubscriptions.set(subscription.id, subscription);
+
+        return subscription.id;
+    }
+
+    /**
+     * Unsubscribe websocket subscription
+     * @param id Subscription id
+     * @param connection Websocket connection
+     * @returns Whether the subscription existed
+     */
+    unsubscribe(id: string, connection: Connection) {
+        const subscription = this.pushSubscriptions.get(id);
+
+        if (!subscription || subscription.connection.id !== connection.id) {
+            return false;
+        }
+
+        this.pushSubscriptions.delete(id);
+
+        if (subscription.type === 'liquidationRisk') {
+            this.riskStates.delete(id);
+        }
+
+        const topic = `${subscription.type}-${subscription.key}`;
+
+        const subscriptions = this.topics.get(topic);
+        if (subscriptions) {
+            subscriptions.delete(subscription);
+            if (subscriptions.size === 0) {
+                this.topics.delete(topic);
+            }
+        }
+
+        const connectionSubscriptions = this.connections.get(connection.id);
+        if (connectionSubscriptions) {
+            connectionSubscriptions.delete(subscription);
+        }
+
+        return true;
+    }
+
+    /**
+     * Unsubscribe all websocket subscriptions of the connection
+     * @param connection Websocket connection
+     */
+    unsubscribeAll(connection: Connection) {
+        const connectionSubscriptions = this.connections.get(connection.id);
+
+        if (!connectionSubscriptions) {
+            return;
+        }
+
+        this.connections.delete(connection.id);
+
+        for (const { id } of connectionSubscriptions) {
+            this.unsubscribe(id, connection);
+        }
+    }
+
+    /**
+     * Notify websocket subscribers that the generated snapshot has been discarded by a reorg
+     * @param id Snapshot id
+     * @param reorgBlockNumber Reorg block number
+     */
+    notifySnapshotInvalidated(id: string, reorgBlockNumber: number) {
+        this.push(
+            'snapshotInvalidated',
+            'all',
+            { id, reorgBlockNumber },
+            (params) => params?.id === undefined || params.id === id,
+        );
+    }
+
+    // whether the client has any AMQP subscriptions
+    private hasClient(client: string) {
+        for (const keys of this.queues.values()) {
+            for (const clients of keys.values()) {
+                if (clients.has(client)) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    // bind the queue of the client to the routing key and save the subscription,
+    // the persistent subscription is shared by all clients, subscribing again only updates the options
+    private async subscribeQueue(
+        topic: string,
+        key: string,
+        match: object,
+        client: string,
+        options: object,
+        routingKey: string,
+        persist: boolean,
+    ) {
+        if (!this.channel) {
+            throw new Error('amqp is disabled');
+        }
 
-            if (!exists) {
-                await Subscription.create({
-                    chainId: this.sdk.ctx.chainId,
-                    type: orderFilledQueue,
-                    data: { address },
+        await this.lock.acquire();
+
+        try {
+            if (persist) {
+                await this.db.sequelize.transaction(async (transaction) => {
+                    const exists = await Subscription.findOne({
+                        where: {
+                            chainId: this.sdk.ctx.chainId,
+                            type: topic,
+                            data: match,
+                        },
+                        transaction,
+                        lock: transaction.LOCK.UPDATE,
+                    });
+
+                    if (exists) {
+                        await exists.update(
+                            { data: { ...match, clients: { ...(exists.data as any).clients, [client]: options } } },
+                            { transaction },
+                        );
+                    } else {
+                        await Subscription.create(
+                            {
+                                chainId: this.sdk.ctx.chainId,
+                                type: topic,
+                                data: { ...match, clients: { [client]: options } },
+                            },
+                            { transaction },
+                        );
+                    }
                 });
             }
+
+            const queue = clientQueue(client);
+
+            await this.channel.assertQueue(queue);
+
+            let keys = this.queues.get(topic);
+            if (!keys) {
+                this.queues.set(topic, (keys = new Map<string, Map<string, QueueSubscription>>()));
+            }
+
+            let clients = keys.get(key);
+            if (!clients) {
+                keys.set(key, (clients = new Map<string, QueueSubscription>()));
+            }
+
+            // the routing key may be changed by the options
+            const previous = clients.get(client);
+            if (previous && previous.routingKey !== routingKey) {
+                await this.channel.unbindQueue(queue, exchange, previous.routingKey);
+            }
+
+            await this.channel.bindQueue(queue, exchange, routingKey);
+
+            clients.set(client, { options, routingKey });
+
+            return queue;
+        } finally {
+            this.lock.release();
         }
+    }
+
+    // remove the subscription of the client, the queue is unbound from the routing key,
+    // and deleted when the client has no subscriptions of any keys
+    private async unsubscribeQueue(topic: string, key: string, match: object, client: string) {
+        await this.lock.acquire();
+
+        try {
+            await this.db.sequelize.transaction(async (transaction) => {
+                const exists = await Subscription.findOne({
+                    where: {
+                        chainId: this.sdk.ctx.chainId,
+                        type: topic,
+                        data: match,
+                    },
+                    transaction,
+                    lock: transaction.LOCK.UPDATE,
+                });
+
+                if (!exists) {
+                    return;
+                }
+
+                const { [client]: _, ...clients } = (exists.data as any).clients ?? {};
 
-        if (!this.channels.has(orderFilledQueue)) {
-            const channel = await this.connection.createChannel();
-            await channel.assertQueue(orderFilledQueue);
+                if (Object.keys(clients).length === 0) {
+                    await exists.destroy({ transaction });
+                } else {
+                    await exists.update({ data: { ...match, clients } }, { transaction });
+                }
+            });
+
+            const keys = this.queues.get(topic);
+            const clients = keys?.get(key);
+            const subscription = clients?.get(client);
+
+            if (!keys || !clients || !subscription) {
+                return;
+            }
+
+            clients.delete(client);
+
+            if (clients.size === 0) {
+                keys.delete(key);
+            }
+
+            if (keys.size === 0) {
+                this.queues.delete(topic);
+            }
 
-            this.channels.set(orderFilledQueue, channel);
+            const queue = clientQueue(client);
+
+            if (this.hasClient(client)) {
+                await this.channel?.unbindQueue(queue, exchange, subscription.routingKey);
+            } else {
+                // the last subscription of the client is gone
+                await this.channel?.deleteQueue(queue);
+            }
+        } finally {
+            this.lock.release();
         }
+    }
 
-        this.orderFilled.add(address);
+    /**
+     * Subscribe order filled event through AMQP
+     * @param address User address
+     * @param client Client id
+     * @param persist Is persistence required?
+     * @returns Queue name of the client
+     */
+    async subscribeOrderFilled(address: string, client = defaultClient, persist = true) {
+        address = formatHexString(address);
+
+        return await this.subscribeQueue(
+            orderFilledTopic,
+            address,
+            { address },
+            client,
+            {},
+            `${orderFilledTopic}.${address}`,
+            persist,
+        );
     }
 
     /**
      * Unsubscribe order filled event
      * @param address User address
+     * @param client Client id
      */
-    async unsubscribeOrderFilled(address: string) {
+    async unsubscribeOrderFilled(address: string, client = defaultClient) {
         address = formatHexString(address);
 
-        await Subscription.destroy({
-            where: {
-                chainId: this.sdk.ctx.chainId,
-                type: orderFilledQueue,
-                data: { address },
-            },
-        });
+        await this.unsubscribeQueue(orderFilledTopic, address, { address }, client);
+    }
 
-        this.orderFilled.delete(address);
+    /**
+     * Subscribe position changed event through AMQP
+     * @param address User address
+     * @param client Client id
+     * @param persist Is persistence required?
+     * @returns Queue name of the client
+     */
+    async subscribePositionChanged(address: string, client = defaultClient, persist = true) {
+        address = formatHexString(address);
 
-        if (this.orderFilled.size === 0) {
-            const channel = this.channels.get(orderFilledQueue);
+        return await this.subscribeQueue(
+            positionChangedTopic,
+            address,
+            { address },
+            client,
+            {},
+            `${positionChangedTopic}.${address}`,
+            persist,
+        );
+    }
 
-            if (channel) {
-                this.channels.delete(orderFilledQueue);
+    /**
+     * Unsubscribe position changed event
+     * @param address User address
+     * @param client Client id
+     */
+    async unsubscribePositionChanged(address: string, client = defaultClient) {
+        address = formatHexString(address);
 
-                await channel.close();
-            }
-        }
+        await this.unsubscribeQueue(positionChangedTopic, address, { address }, client);
+    }
+
+    /**
+     * Subscribe AMM changed event through AMQP
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param throttle Send at most one message per block
+     * @param client Client id
+     * @param persist Is persistence required?
+     * @returns Queue name of the client
+     */
+    async subscribeAMMChanged(
+        instrument: string,
+        expiry: number,
+        throttle = false,
+        client = defaultClient,
+        persist = true,
+    ) {
+        instrument = formatHexString(instrument);
+
+        const key = `${instrument}-${expiry}`;
+
+        return await this.subscribeQueue(
+            ammChangedTopic,
+            key,
+            { instrument, expiry },
+            client,
+            { throttle },
+            ammChangedRoutingKey(key, throttle),
+            persist,
+        );
+    }
+
+    /**
+     * Unsubscribe AMM changed event
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param client Client id
+     */
+    async unsubscribeAMMChanged(instrument: string, expiry: number, client = defaultClient) {
+        instrument = formatHexString(instrument);
+
+        await this.unsubscribeQueue(ammChangedTopic, `${instrument}-${expiry}`, { instrument, expiry }, client);
+    }
+
+    /**
+     * Subscribe liquidation risk alert through AMQP
+     * @param address User address
+     * @param threshold Alert when the margin ratio is below `threshold` times the maintenance margin ratio
+     * @param client Client id
+     * @param persist Is persistence required?
+     * @returns Queue name of the client
+     */
+    async subscribeLiquidationRisk(address: string, threshold: number, client = defaultClient, persist = true) {
+        address = formatHexString(address);
+
+        // the threshold of each client is different, so the routing key includes the client id
+        const queue = await this.subscribeQueue(
+            liquidationRiskTopic,
+            address,
+            { address },
+            client,
+            { threshold },
+            `${liquidationRiskTopic}.${address}.${client}`,
+            persist,
+        );
+
+        // the threshold may be changed, recompute the states
+        this.riskStates.delete(riskOwner(address, client));
+
+        return queue;
+    }
+
+    /**
+     * Unsubscribe liquidation risk alert
+     * @param address User address
+     * @param client Client id
+     */
+    async unsubscribeLiquidationRisk(address: string, client = defaultClient) {
+        address = formatHexString(address);
+
+        await this.unsubscribeQueue(liquidationRiskTopic, address, { address }, client);
+
+        this.riskStates.delete(riskOwner(address, client));
     }
 
     /**
      * Lifecycle function
      */
     async onInit() {
+        if (!this.config.url) {
+            info('Subscriber', 'amqp is disabled, only websocket subscriptions are available');
+
+            return;
+        }
+
         this.connection = await amqplib.connect(this.config.url);
 
+        this.channel = await this.connection.createChannel();
+
+        await this.channel.assertExchange(exchange, 'topic');
+
         await this.db.init();
 
         // loading persistent information
         for (const subscription of await Subscription.findAll({ where: { chainId: this.sdk.ctx.chainId } })) {
-            if (subscription.type === orderFilledQueue) {
-                await this.subscribeOrderFilled((subscription.data as any).address, false);
+            const { clients, ...data } = subscription.data as any;
+
+            // subscriptions saved by older versions belong to the default client, persist them again to migrate
+            const persist = clients === undefined;
+
+            for (const [client, options] of Object.entries<any>(clients ?? { [defaultClient]: data })) {
+                if (subscription.type === orderFilledTopic) {
+                    await this.subscribeOrderFilled(data.address, client, persist);
+                } else if (subscription.type === positionChangedTopic) {
+                    await this.subscribePositionChanged(data.address, client, persist);
+                } else if (subscription.type === ammChangedTopic) {
+                    await this.subscribeAMMChanged(data.instrument, data.expiry, options.throttle, client, persist);
+                } else if (subscription.type === liquidationRiskTopic) {
+                    if (!isRiskThreshold(options.threshold)) {
+                        // saved before the threshold was limited
+                        warn('Subscriber', 'invalid liquidation risk threshold, ignored:', data.address, client);
+                        continue;
+                    }
+
+                    await this.subscribeLiquidationRisk(data.address, options.threshold, client, persist);
+                }
             }
         }
     }
@@ -158,6 +963,8 @@ export class Subscriber extends Plugin {
      */
     async onStart() {
         this.core.nonBlocking.on('newParsedEvent', this.onNewParsedEvent);
+        this.core.nonBlocking.on('snapshotUpdated', this.onSnapshotUpdated);
+        this.core.nonBlocking.on('reorged', this.onReorged);
     }
 
     /**
@@ -165,11 +972,16 @@ export class Subscriber extends Plugin {
      */
     async onDestroy() {
         this.core.nonBlocking.off('newParsedEvent', this.onNewParsedEvent);
+        this.core.nonBlocking.off('snapshotUpdated', this.onSnapshotUpdated);
+        this.core.nonBlocking.off('reorged', this.onReorged);
 
-        for (const channel of this.channels.values()) {
-            await channel.close();
+        if (this.pendingTimeout) {
+            clearTimeout(this.pendingTimeout);
+            this.pendingTimeout = undefined;
         }
 
-        await this.connection.close();
+        await this.channel?.close();
+
+        await this.connection?.close();
     }
 }
@@ -0,0 +1,19 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Websocket client connection
+ */
+export interface Connection {
+    // unique connection id
+    readonly id: string;
+
+    // will be aborted when the connection is closed
+    readonly signal: AbortSignal;
+
+    /**
+     * Push JSON-RPC notification to the client
+     * @param method Method name
+     * @param params Params
+     */
+    notify(method: string, params: any): void;
+}
@@ -0,0 +1,482 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ethers, BigNumber } from 'ethers';
+import { TickMath, parseTicks } from '@synfutures/oyster-sdk';
+import { Event, EventPosition } from '@synfutures/db';
+import { deserializeEventArgs, formatHexString } from '@synfutures/base-plugins';
+
+const WAD = BigNumber.from(10).pow(18);
+
+const BPS_TO_WAD = BigNumber.from(10).pow(14);
+
+const Q96 = BigNumber.from(2).pow(96);
+
+const Q192 = BigNumber.from(2).pow(192);
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// event args that may contain the affected traders
+const traderArgs = ['trader', 'target'];
+
+/**
+ * Get the traders affected by the event
+ * @param parsed Parsed log
+ * @returns Formatted trader addresses
+ */
+export function getEventTraders(parsed: ethers.utils.LogDescription) {
+    const traders = new Set<string>();
+
+    for (const arg of traderArgs) {
+        const trader = parsed.args[arg];
+
+        if (typeof trader === 'string') {
+            traders.add(formatHexString(trader));
+        }
+    }
+
+    return traders;
+}
+
+/**
+ * Whether the account has no position, orders or ranges
+ * @param account Snapshot account
+ */
+export function isEmptyAccount(account: any) {
+    return (
+        account.position.size.isZero() &&
+        account.position.balance.isZero() &&
+        account.oids.length === 0 &&
+        account.rids.length === 0
+    );
+}
+
+/**
+ * Format snapshot position to JSON
+ * @param position Snapshot position
+ * @returns Formatted position
+ */
+export function formatPosition(position: any) {
+    return {
+        balance: position.balance.toString(),
+        size: position.size.toString(),
+        entryNotional: position.entryNotional.toString(),
+        entrySocialLossIndex: position.entrySocialLossIndex.toString(),
+        entryFundingIndex: position.entryFundingIndex.toString(),
+    };
+}
+
+/**
+ * Calculate the margin ratio of the position at the AMM price,
+ * funding and social loss are not included
+ * @param position Snapshot position
+ * @param sqrtPX96 Square root of the AMM price
+ * @returns Margin ratio in WAD or `undefined` if the position is empty
+ */
+export function calcMarginRatio(position: any, sqrtPX96: BigNumber) {
+    const size: BigNumber = position.size;
+
+    if (size.isZero()) {
+        return undefined;
+    }
+
+    const price = sqrtPX96.mul(sqrtPX96).mul(WAD).div(Q192);
+
+    const value = size.abs().mul(price).div(WAD);
+
+    if (value.isZero()) {
+        return undefined;
+    }
+
+    const pnl = size.gt(0) ? value.sub(position.entryNotional) : position.entryNotional.sub(value);
+
+    return position.balance.add(pnl).mul(WAD).div(value) as BigNumber;
+}
+
+/**
+ * Calculate the margin ratio below which the account is considered at risk
+ * @param maintenanceMarginRatio Maintenance margin ratio in bps
+ * @param threshold Multiple of the maintenance margin ratio
+ * @returns Risk line in WAD
+ */
+export function calcRiskLine(maintenanceMarginRatio: number, threshold: number) {
+    return BigNumber.from(maintenanceMarginRatio)
+        .mul(BPS_TO_WAD)
+        .mul(Math.round(threshold * 10000))
+        .div(10000);
+}
+
+/**
+ * Format snapshot AMM to JSON
+ * @param amm Snapshot AMM
+ * @returns Formatted AMM
+ */
+export function formatAMM(amm: any) {
+    return {
+        timestamp: amm.timestamp,
+        status: amm.status,
+        tick: amm.tick,
+        sqrtPX96: amm.sqrtPX96.toString(),
+        liquidity: amm.liquidity.toString(),
+        totalLiquidity: amm.totalLiquidity.toString(),
+        involvedFund: amm.involvedFund.toString(),
+        openInterests: amm.openInterests.toString(),
+        feeIndex: amm.feeIndex.toString(),
+        protocolFee: amm.protocolFee.toString(),
+        totalLong: amm.totalLong.toString(),
+        totalShort: amm.totalShort.toString(),
+        longSocialLossIndex: amm.longSocialLossIndex.toString(),
+        shortSocialLossIndex: amm.shortSocialLossIndex.toString(),
+        longFundingIndex: amm.longFundingIndex.toString(),
+        shortFundingIndex: amm.shortFundingIndex.toString(),
+        insuranceFund: amm.insuranceFund.toString(),
+        settlementPrice: amm.settlementPrice.toString(),
+    };
+}
+
+/**
+ * Calculate the funding and fee accrual of the pair between two AMM states,
+ * rates are relative to the price at the start of the interval
+ * @param start Snapshot AMM at the start of the interval
+ * @param end Snapshot AMM at the end of the interval
+ * @param duration Interval duration in seconds
+ * @returns Index changes, rates and APRs in WAD, rates are `undefined` if the price is zero
+ */
+export function calcFundingInterval(start: any, end: any, duration: number) {
+    const sqrtPX96: BigNumber = start.sqrtPX96;
+
+    const price = sqrtPX96.mul(sqrtPX96).mul(WAD).div(Q192);
+
+    // the value of a unit of liquidity is 2 * sqrt(price)
+    const liquidityValue = sqrtPX96.mul(2).mul(WAD).div(Q96);
+
+    const longFunding: BigNumber = end.longFundingIndex.sub(start.longFundingIndex);
+    const shortFunding: BigNumber = end.shortFundingIndex.sub(start.shortFundingIndex);
+    const fee: BigNumber = end.feeIndex.sub(start.feeIndex);
+
+    const rate = (value: BigNumber, base: BigNumber) => (base.isZero() ? undefined : value.mul(WAD).div(base));
+
+    const annualize = (rate?: BigNumber) =>
+        rate === undefined || duration <= 0 ? undefined : rate.mul(SECONDS_PER_YEAR).div(duration).toString();
+
+    const longFundingRate = rate(longFunding, price);
+    const shortFundingRate = rate(shortFunding, price);
+    const feeRate = rate(fee, liquidityValue);
+
+    return {
+        longFunding: longFunding.toString(),
+        shortFunding: shortFunding.toString(),
+        fee: fee.toString(),
+        longFundingRate: longFundingRate?.toString(),
+        shortFundingRate: shortFundingRate?.toString(),
+        feeRate: feeRate?.toString(),
+        longFundingAPR: annualize(longFundingRate),
+        shortFundingAPR: annualize(shortFundingRate),
+        feeAPR: annualize(feeRate),
+    };
+}
+
+/**
+ * Calculate the limit order and range liquidity depth around the current tick
+ * @param amm Snapshot AMM
+ * @param pearls Snapshot pearls of the pair by tick
+ * @param levels Max number of ticks on each side of the current tick
+ * @returns Resting orders and range liquidity, sorted by tick ascending
+ */
+export function calcDepth(amm: any, pearls: Map<number, any>, levels: number) {
+    const tick: number = amm.tick;
+
+    const bids: { tick: number; size: string }[] = [];
+    const asks: { tick: number; size: string }[] = [];
+
+    // ticks at which the range liquidity changes
+    const below: number[] = [];
+    const above: number[] = [];
+
+    for (const [_tick, pearl] of Array.from(pearls).sort(([a], [b]) => a - b)) {
+        const left: BigNumber = pearl.left;
+
+        // long orders rest below the price, short orders rest above the price
+        if (left.gt(0)) {
+            bids.push({ tick: _tick, size: left.toString() });
+        } else if (left.lt(0)) {
+            asks.push({ tick: _tick, size: left.abs().toString() });
+        }
+
+        if (!pearl.liquidityNet.isZero()) {
+            (_tick <= tick ? below : above).push(_tick);
+        }
+    }
+
+    // each entry is the liquidity from its tick up to the tick of the next entry
+    const ranges: { tick: number; liquidity: string }[] = [];
+
+    let liquidity: BigNumber = amm.liquidity;
+
+    for (const _tick of below.slice(-levels).reverse()) {
+        ranges.unshift({ tick: _tick, liquidity: liquidity.toString() });
+
+        // crossing the tick downwards
+        liquidity = liquidity.sub(pearls.get(_tick).liquidityNet);
+    }
+
+    liquidity = amm.liquidity;
+
+    for (const _tick of above.slice(0, levels)) {
+        // crossing the tick upwards
+        liquidity = liquidity.add(pearls.get(_tick).liquidityNet);
+
+        ranges.push({ tick: _tick, liquidity: liquidity.toString() });
+    }
+
+    return {
+        bids: bids.slice(-levels),
+        asks: asks.slice(0, levels),
+        ranges,
+    };
+}
+
+// base and quote amounts of the range liquidity at the price
+function calcRangeAmounts(
+    liquidity: BigNumber,
+    sqrtPX96: BigNumber,
+    sqrtLowerPX96: BigNumber,
+    sqrtUpperPX96: BigNumber,
+) {
+    const sqrtP = sqrtPX96.lt(sqrtLowerPX96) ? sqrtLowerPX96 : sqrtPX96.gt(sqrtUpperPX96) ? sqrtUpperPX96 : sqrtPX96;
+
+    return {
+        base: liquidity.mul(Q96).div(sqrtP).sub(liquidity.mul(Q96).div(sqrtUpperPX96)),
+        quote: liquidity.mul(sqrtP.sub(sqrtLowerPX96)).div(Q96),
+    };
+}
+
+/**
+ * Format snapshot range with the estimated fee and removal value,
+ * the fee is estimated with the current fee index of the AMM,
+ * the removal value is the balance plus the fee and the PnL of the position taken by the range at the current price
+ * @param rid Range id
+ * @param range Snapshot range
+ * @param amm Snapshot AMM
+ * @returns Formatted range
+ */
+export function formatRange(rid: number, range: any, amm: any) {
+    const { tickLower, tickUpper } = parseTicks(rid);
+
+    const sqrtLowerPX96 = TickMath.getSqrtRatioAtTick(tickLower);
+    const sqrtUpperPX96 = TickMath.getSqrtRatioAtTick(tickUpper);
+
+    const liquidity: BigNumber = range.liquidity;
+    const sqrtPX96: BigNumber = amm.sqrtPX96;
+
+    const price = sqrtPX96.mul(sqrtPX96).mul(WAD).div(Q192);
+
+    const entry = calcRangeAmounts(liquidity, range.sqrtEntryPX96, sqrtLowerPX96, sqrtUpperPX96);
+    const current = calcRangeAmounts(liquidity, sqrtPX96, sqrtLowerPX96, sqrtUpperPX96);
+
+    const fee = liquidity.mul(amm.feeIndex.sub(range.entryFeeIndex)).div(WAD);
+
+    // the difference between the current amounts and the entry amounts at the current price
+    const pnl = current.base.sub(entry.base).mul(price).div(WAD).add(current.quote).sub(entry.quote);
+
+    return {
+        rid,
+        tickLower,
+        tickUpper,
+        liquidity: liquidity.toString(),
+        balance: range.balance.toString(),
+        entryFeeIndex: range.entryFeeIndex.toString(),
+        sqrtEntryPX96: range.sqrtEntryPX96.toString(),
+        size: current.base.sub(entry.base).toString(),
+        fee: fee.toString(),
+        pnl: pnl.toString(),
+        value: range.balance.add(fee).add(pnl).toString(),
+    };
+}
+
+/**
+ * Format snapshot account to JSON
+ * @param account Snapshot account
+ * @returns Formatted account
+ */
+export function formatAccount(account: any) {
+    const orders: any = {};
+
+    for (const oid of account.oids) {
+        const order = account.orders.get(oid);
+
+        orders[oid.toString()] = {
+            balance: order?.balance.toString(),
+            size: order?.size.toString(),
+        };
+    }
+
+    const ranges: any = {};
+
+    for (const rid of account.rids) {
+        const range = account.ranges.get(rid);
+
+        ranges[rid.toString()] = {
+            liquidity: range?.liquidity.toString(),
+            entryFeeIndex: range?.entryFeeIndex.toString(),
+            balance: range?.balance.toString(),
+            sqrtEntryPX96: range?.sqrtEntryPX96.toString(),
+        };
+    }
+
+    return {
+        onumber: account.onumber,
+        rnumber: account.rnumber,
+        oids: account.oids,
+        rids: account.rids,
+        position: formatPosition(account.position),
+        orders,
+        ranges,
+    };
+}
+
+/**
+ * Format the AMM status of all pairs of the instrument
+ * @param instrumentState Snapshot instrument state
+ * @returns Pair list
+ */
+export function formatPairs(instrumentState: any) {
+    const pairs: { expiry: number; status: number; timestamp: number }[] = [];
+
+    for (const [expiry, pairState] of instrumentState.pairStates) {
+        pairs.push({
+            expiry,
+            status: pairState.amm.status,
+            timestamp: pairState.amm.timestamp,
+        });
+    }
+
+    return pairs;
+}
+
+/**
+ * Whether the value is a valid event position
+ * @param value Any value
+ */
+export function isEventPosition(value: any): value is EventPosition {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof value.blockNumber === 'number' &&
+        typeof value.transactionIndex === 'number' &&
+        typeof value.logIndex === 'number'
+    );
+}
+
+/**
+ * Whether the value is a valid timestamp target
+ * @param value Any value
+ */
+export function isTimestamp(value: any): value is { timestamp: number } {
+    return typeof value === 'object' && value !== null && Number.isInteger(value.timestamp) && value.timestamp >= 0;
+}
+
+// max multiple of the maintenance margin ratio of liquidation risk subscriptions
+const maxRiskThreshold = 100;
+
+/**
+ * Whether the value is a valid liquidation risk threshold,
+ * it is a finite positive number, large values overflow the risk line
+ * @param value Any value
+ */
+export function isRiskThreshold(value: any): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= maxRiskThreshold;
+}
+
+/**
+ * Whether the value is a valid AMQP client id,
+ * it is a part of the queue name and the routing key, so dots are not allowed
+ * @param value Any value
+ */
+export function isClientId(value: any): value is string {
+    return typeof value === 'string' && /^[\w-]{1,64}$/.test(value);
+}
+
+/**
+ * Format event position to cursor string
+ * @param position Event position
+ * @returns Cursor
+ */
+export function formatCursor(position: EventPosition) {
+    return `${position.blockNumber}-${position.transactionIndex}-${position.logIndex}`;
+}
+
+/**
+ * Parse cursor string to event position
+ * @param cursor Cursor
+ * @returns Event position or `undefined` if the cursor is invalid
+ */
+export function parseCursor(cursor: string): EventPosition | undefined {
+    const elements = cursor.split('-').map((element) => Number(element));
+
+    if (elements.length !== 3 || elements.some((element) => !Number.isInteger(element) || element < 0)) {
+        return undefined;
+    }
+
+    return {
+        blockNumber: elements[0],
+        transactionIndex: elements[1],
+        logIndex: elements[2],
+    };
+}
+
+/**
+ * Format deserialized event args to JSON,
+ * big numbers are converted to decimal strings,
+ * positional keys are dropped if named keys exist
+ * @param args Deserialized event args
+ * @returns Formatted args
+ */
+export function formatEventArgs(args: any): any {
+    if (BigNumber.isBigNumber(args)) {
+        return args.toString();
+    }
+
+    if (typeof args !== 'object' || args === null) {
+        return args;
+    }
+
+    const keys = Object.keys(args).filter((key) => key !== 'length' && !/^\d+$/.test(key));
+
+    if (keys.length === 0 && typeof args.length === 'number') {
+        // it is an array
+        const result: any[] = [];
+
+        for (let i = 0; i < args.length; i++) {
+            result.push(formatEventArgs(args[i]));
+        }
+
+        return result;
+    }
+
+    const result: any = {};
+
+    for (const key of keys) {
+        result[key] = formatEventArgs(args[key]);
+    }
+
+    return result;
+}
+
+/**
+ * Format database event to JSON
+ * @param event Database event
+ * @returns Formatted event
+ */
+export function formatEvent(event: Event) {
+    return {
+        id: event.id,
+        name: event.name,
+        blockNumber: event.blockNumber,
+        transactionIndex: event.transactionIndex,
+        logIndex: event.logIndex,
+        timestamp: event.timestamp,
+        blockHash: '0x' + event.blockHash,
+        txHash: '0x' + event.txHash,
+        address: '0x' + event.address,
+        args: formatEventArgs(deserializeEventArgs(event.data)),
+    };
+}
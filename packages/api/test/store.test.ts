@@ -0,0 +1,147 @@
+/* eslint-disable @typescript-eslint/no-non-null-assertion */
+import { expect } from 'chai';
+import { Snapshot } from '@synfutures/oyster-sdk';
+import { SnapshotStore } from '../src/store';
+import type { Connection } from '../src/types';
+
+describe('SnapshotStore', function () {
+    const createMockSnapshot = (size = 0) =>
+        ({
+            // the serialized size is the length of the JSON string
+            serialize: () => 'x'.repeat(Math.max(size - 2, 0)),
+        } as unknown as Snapshot);
+
+    const createMockConnection = (id: string) => {
+        const aborter = new AbortController();
+
+        const connection: Connection = {
+            id,
+            signal: aborter.signal,
+            notify: () => undefined,
+        };
+
+        return { connection, close: () => aborter.abort() };
+    };
+
+    let now = 0;
+    const dateNow = Date.now;
+
+    beforeEach(function () {
+        now = 1000;
+        Date.now = () => now;
+    });
+
+    afterEach(function () {
+        Date.now = dateNow;
+    });
+
+    it('should get and delete all ids of the snapshot', function () {
+        const store = new SnapshotStore();
+        const snapshot = createMockSnapshot();
+
+        expect(store.set(['a', 'b'], snapshot)).be.true;
+
+        expect(store.count).be.eq(1);
+        expect(store.get('a')).be.eq(snapshot);
+        expect(store.get('b')).be.eq(snapshot);
+        expect(store.aliases('a')).be.deep.eq(['a', 'b']);
+
+        expect(store.deleteId('a')).be.true;
+        expect(store.has('a')).be.false;
+        expect(store.count).be.eq(1);
+
+        expect(store.delete('b')).be.true;
+        expect(store.count).be.eq(0);
+        expect(store.getEvicted('b')).be.undefined;
+    });
+
+    it('should evict the least recently used snapshot by count', function () {
+        const store = new SnapshotStore({ maxCount: 2 });
+
+        store.set(['a'], createMockSnapshot());
+        store.set(['b'], createMockSnapshot());
+
+        // `a` becomes the most recently used
+        store.get('a');
+
+        store.set(['c'], createMockSnapshot());
+
+        expect(store.keys().sort()).be.deep.eq(['a', 'c']);
+        expect(store.getEvicted('b')!.reason).be.eq('capacity');
+    });
+
+    it('should evict by size but keep the latest snapshot', function () {
+        const store = new SnapshotStore({ maxSize: 100 });
+
+        store.set(['a'], createMockSnapshot(60));
+        store.set(['b'], createMockSnapshot(30));
+
+        expect(store.size).be.eq(90);
+
+        store.set(['c'], createMockSnapshot(50));
+
+        expect(store.keys().sort()).be.deep.eq(['b', 'c']);
+        expect(store.size).be.eq(80);
+
+        // larger than the limit, but it is the latest one
+        store.set(['d'], createMockSnapshot(200));
+
+        expect(store.keys()).be.deep.eq(['d']);
+        expect(store.size).be.eq(200);
+    });
+
+    it('should evict expired snapshots', function () {
+        const store = new SnapshotStore({ ttl: 100 });
+
+        store.set(['a'], createMockSnapshot());
+
+        now += 50;
+
+        store.set(['b'], createMockSnapshot());
+
+        now += 60;
+
+        expect(store.has('a')).be.false;
+        expect(store.get('b')).not.be.undefined;
+        expect(store.getEvicted('a')!.reason).be.eq('expired');
+
+        // accessing resets the idle time
+        now += 60;
+
+        expect(store.has('b')).be.true;
+    });
+
+    it('should evict snapshots when all owners are closed', function () {
+        const store = new SnapshotStore();
+
+        const owner1 = createMockConnection('1');
+        const owner2 = createMockConnection('2');
+
+        store.set(['a'], createMockSnapshot(), owner1.connection);
+        store.set(['b'], createMockSnapshot(), owner1.connection);
+
+        expect(store.retain('a', owner2.connection)).be.true;
+        // generated through HTTP
+        expect(store.retain('b')).be.true;
+
+        owner1.close();
+
+        expect(store.keys().sort()).be.deep.eq(['a', 'b']);
+
+        owner2.close();
+
+        expect(store.keys()).be.deep.eq(['b']);
+        expect(store.getEvicted('a')!.reason).be.eq('closed');
+    });
+
+    it('should not save snapshots of closed connections', function () {
+        const store = new SnapshotStore();
+
+        const owner = createMockConnection('1');
+
+        owner.close();
+
+        expect(store.set(['a'], createMockSnapshot(), owner.connection)).be.false;
+        expect(store.has('a')).be.false;
+    });
+});
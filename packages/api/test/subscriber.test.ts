@@ -0,0 +1,182 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { expect } from 'chai';
+import amqplib from 'amqplib';
+import { DB, Subscription } from '@synfutures/db';
+import { Subscriber } from '../src/subscriber';
+
+describe('Subscriber', function () {
+    const db = process.env['TEST_DB'];
+
+    if (db !== undefined) {
+        const chainId = 100;
+        const address = '0x' + '1'.repeat(40);
+        const another = '0x' + '2'.repeat(40);
+        const instrument = '0x' + '3'.repeat(40);
+
+        let database!: DB;
+        let calls!: [string, ...any[]][];
+        let subscriber!: Subscriber;
+
+        const connect = amqplib.connect;
+
+        // record the queue operations of the channel
+        const createMockChannel = () => {
+            const record =
+                (method: string) =>
+                async (...args: any[]) => {
+                    calls.push([method, ...args]);
+                };
+
+            return {
+                assertExchange: record('assertExchange'),
+                assertQueue: record('assertQueue'),
+                bindQueue: record('bindQueue'),
+                unbindQueue: record('unbindQueue'),
+                deleteQueue: record('deleteQueue'),
+                publish: () => true,
+                close: async () => undefined,
+            };
+        };
+
+        const createMockCore = () => ({
+            getPlugin: (type: string) => {
+                if (type === 'Common') {
+                    return { sdk: { ctx: { chainId } } };
+                }
+
+                if (type === 'DB') {
+                    return { sequelize: database.sequelize, init: async () => undefined };
+                }
+
+                return undefined;
+            },
+        });
+
+        const findSubscriptions = (type: string) =>
+            Subscription.findAll({ where: { chainId, type }, order: [['id', 'ASC']] });
+
+        before(async function () {
+            database = new DB(db);
+
+            await database.init([Subscription]);
+
+            (amqplib as any).connect = async () => ({
+                createChannel: async () => createMockChannel(),
+                close: async () => undefined,
+            });
+        });
+
+        after(async function () {
+            (amqplib as any).connect = connect;
+
+            await database.close();
+        });
+
+        beforeEach(async function () {
+            await Subscription.destroy({ where: { chainId } });
+
+            calls = [];
+
+            subscriber = new Subscriber(createMockCore() as any, { url: 'amqp://localhost' });
+
+            await subscriber.onInit();
+        });
+
+        it('should subscribe once per client', async function () {
+            expect(await subscriber.subscribeOrderFilled(address, 'a')).be.eq('oyster-api.a');
+            expect(await subscriber.subscribeOrderFilled(address, 'a')).be.eq('oyster-api.a');
+            await subscriber.subscribeOrderFilled(address, 'b');
+
+            const [subscription] = await findSubscriptions('order-filled');
+            expect(subscription.data).be.deep.eq({ address: address.slice(2), clients: { a: {}, b: {} } });
+
+            // a single unsubscription removes the repeated subscriptions of the client
+            await subscriber.unsubscribeOrderFilled(address, 'a');
+
+            const [remaining] = await findSubscriptions('order-filled');
+            expect(remaining.data).be.deep.eq({ address: address.slice(2), clients: { b: {} } });
+            expect(calls.filter(([method]) => method === 'deleteQueue')).be.deep.eq([['deleteQueue', 'oyster-api.a']]);
+
+            await subscriber.unsubscribeOrderFilled(address, 'b');
+
+            expect(await findSubscriptions('order-filled')).be.deep.eq([]);
+            expect(calls.filter(([method]) => method === 'deleteQueue').length).be.eq(2);
+        });
+
+        it('should unbind the queue until the last subscription of the client is removed', async function () {
+            await subscriber.subscribeOrderFilled(address, 'a');
+            await subscriber.subscribePositionChanged(another, 'a');
+
+            calls = [];
+
+            await subscriber.unsubscribeOrderFilled(address, 'a');
+
+            expect(calls).be.deep.eq([
+                ['unbindQueue', 'oyster-api.a', 'oyster-api', `order-filled.${address.slice(2)}`],
+            ]);
+
+            calls = [];
+
+            await subscriber.unsubscribePositionChanged(another, 'a');
+
+            expect(calls).be.deep.eq([['deleteQueue', 'oyster-api.a']]);
+        });
+
+        it('should rebind the queue when the routing key is changed', async function () {
+            await subscriber.subscribeAMMChanged(instrument, 1, false, 'a');
+
+            calls = [];
+
+            await subscriber.subscribeAMMChanged(instrument, 1, true, 'a');
+
+            const key = `amm-changed.${instrument.slice(2)}-1`;
+            expect(calls.filter(([method]) => method !== 'assertQueue')).be.deep.eq([
+                ['unbindQueue', 'oyster-api.a', 'oyster-api', key],
+                ['bindQueue', 'oyster-api.a', 'oyster-api', `${key}.throttled`],
+            ]);
+
+            const [subscription] = await findSubscriptions('amm-changed');
+            expect((subscription.data as any).clients).be.deep.eq({ a: { throttle: true } });
+        });
+
+        it('should migrate subscriptions saved without clients', async function () {
+            await Subscription.create({ chainId, type: 'order-filled', data: { address: address.slice(2) } });
+            await Subscription.create({
+                chainId,
+                type: 'amm-changed',
+                data: { instrument: instrument.slice(2), expiry: 1, throttle: true },
+            });
+
+            calls = [];
+
+            subscriber = new Subscriber(createMockCore() as any, { url: 'amqp://localhost' });
+
+            await subscriber.onInit();
+
+            const [orderFilled] = await findSubscriptions('order-filled');
+            expect(orderFilled.data).be.deep.eq({ address: address.slice(2), clients: { default: {} } });
+
+            const [ammChanged] = await findSubscriptions('amm-changed');
+            expect(ammChanged.data).be.deep.eq({
+                instrument: instrument.slice(2),
+                expiry: 1,
+                clients: { default: { throttle: true } },
+            });
+
+            expect(calls.filter(([method]) => method === 'bindQueue')).have.deep.members([
+                ['bindQueue', 'oyster-api.default', 'oyster-api', `order-filled.${address.slice(2)}`],
+                ['bindQueue', 'oyster-api.default', 'oyster-api', `amm-changed.${instrument.slice(2)}-1.throttled`],
+            ]);
+
+            // migrated subscriptions are loaded without being saved again
+            calls = [];
+
+            subscriber = new Subscriber(createMockCore() as any, { url: 'amqp://localhost' });
+
+            await subscriber.onInit();
+
+            expect(await findSubscriptions('order-filled')).have.length(1);
+            expect(calls.filter(([method]) => method === 'bindQueue')).have.length(2);
+        });
+    }
+});
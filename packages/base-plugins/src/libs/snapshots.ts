@@ -4,7 +4,7 @@ import ProgressBar from 'progress';
 import { Snapshot, SynFuturesV3 } from '@synfutures/oyster-sdk';
 import { Snapshot as SnapshotTable, EventPosition, Events } from '@synfutures/db';
 import { _info } from '@synfutures/logger';
-import { fromDBEvent } from '../utils';
+import { compareLog, fromDBEvent } from '../utils';
 
 async function replay(
     events: Events,
@@ -68,6 +68,117 @@ async function replay(
     }
 }
 
+// generate the conditions of saved snapshots before or at the position
+function beforeConditions(to: number | EventPosition) {
+    if (typeof to === 'number') {
+        return {
+            blockNumber: {
+                [Op.lte]: to,
+            },
+        };
+    }
+
+    return {
+        [Op.or]: [
+            {
+                blockNumber: {
+                    [Op.lt]: to.blockNumber,
+                },
+            },
+            {
+                blockNumber: to.blockNumber,
+                transactionIndex: {
+                    [Op.lt]: to.transactionIndex,
+                },
+            },
+            {
+                blockNumber: to.blockNumber,
+                transactionIndex: to.transactionIndex,
+                logIndex: {
+                    [Op.lte]: to.logIndex,
+                },
+            },
+        ],
+    };
+}
+
+/**
+ * Whether the position is before or at the target
+ * @param position Event position
+ * @param to Block number or event position
+ */
+export function isBeforeOrAt(position: EventPosition, to: number | EventPosition) {
+    return typeof to === 'number' ? position.blockNumber <= to : compareLog(position, to) <= 0;
+}
+
+/**
+ * Clone snapshot, the clone can be changed independently
+ * @param sdk SDK instance
+ * @param snapshot Snapshot
+ * @returns Cloned snapshot
+ */
+export function cloneSnapshot(sdk: SynFuturesV3, snapshot: Snapshot) {
+    const clone = new Snapshot(sdk);
+    clone.deserialize(snapshot.serialize());
+    return clone;
+}
+
+/**
+ * Find the position of the nearest saved snapshot before or at the position
+ * @param chainId Chain ID
+ * @param to Block number or event position
+ * @returns Event position or `undefined` if it doesn't exist
+ */
+export async function findNearestSnapshotPosition(
+    chainId: number,
+    to: number | EventPosition,
+): Promise<EventPosition | undefined> {
+    const _snapshot = await SnapshotTable.findOne({
+        attributes: ['blockNumber', 'transactionIndex', 'logIndex'],
+        where: {
+            chainId,
+            [Op.and]: [beforeConditions(to)],
+        },
+        order: [
+            ['blockNumber', 'DESC'],
+            ['transactionIndex', 'DESC'],
+            ['logIndex', 'DESC'],
+        ],
+    });
+
+    return _snapshot
+        ? {
+              blockNumber: _snapshot.blockNumber,
+              transactionIndex: _snapshot.transactionIndex,
+              logIndex: _snapshot.logIndex,
+          }
+        : undefined;
+}
+
+/**
+ * Read parsed events in order, the caller is responsible for processing them
+ * @param events Events manager instance
+ * @param from From event position, exclusive
+ * @param to To block number or event position, inclusive
+ * @param signal Abort signal
+ */
+export async function* readParsedEvents(
+    events: Events,
+    from: EventPosition,
+    to?: number | EventPosition,
+    signal?: AbortSignal,
+) {
+    for await (const _events of events.findAllOrderByBTLASC(from, to)) {
+        for (const event of _events) {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+
+            yield { event, ...fromDBEvent(event) };
+        }
+    }
+}
+
 /**
  * Get snapshot at position
  * NOTE: If a snapshot is passed in, the snapshot will be changed
@@ -104,42 +215,10 @@ export async function getSnapshot(
         };
         snapshot = new Snapshot(sdk);
 
-        const conditions: any[] = [];
-        if (typeof to === 'number') {
-            conditions.push({
-                blockNumber: {
-                    [Op.lte]: to,
-                },
-            });
-        } else {
-            conditions.push({
-                [Op.or]: [
-                    {
-                        blockNumber: {
-                            [Op.lt]: to.blockNumber,
-                        },
-                    },
-                    {
-                        blockNumber: to.blockNumber,
-                        transactionIndex: {
-                            [Op.lt]: to.transactionIndex,
-                        },
-                    },
-                    {
-                        blockNumber: to.blockNumber,
-                        transactionIndex: to.transactionIndex,
-                        logIndex: {
-                            [Op.lte]: to.logIndex,
-                        },
-                    },
-                ],
-            });
-        }
-
         const _snapshot = await SnapshotTable.findOne({
             where: {
                 chainId: sdk.ctx.chainId,
-                [Op.and]: conditions,
+                [Op.and]: [beforeConditions(to)],
             },
             order: [
                 ['blockNumber', 'DESC'],
@@ -171,12 +250,14 @@ export async function getSnapshot(
  * @param snapshot Snapshot
  * @param position Event position
  * @param transaction Tranasction instance
+ * @param pinnedIds Snapshot ids pinned by users, pinned snapshots will not be deleted as outdated
  */
 export async function saveSnapshot(
     chainId: number,
     snapshot: Snapshot,
     position: EventPosition,
     transaction?: Transaction,
+    pinnedIds?: string[],
 ) {
     const _snapshot = await SnapshotTable.findOne({
         where: {
@@ -186,6 +267,8 @@ export async function saveSnapshot(
             logIndex: position.logIndex,
         },
         transaction,
+        // lock the row so that concurrent pinning and unpinning do not overwrite each other
+        lock: transaction ? Transaction.LOCK.UPDATE : undefined,
     });
 
     // create if not exists
@@ -197,8 +280,103 @@ export async function saveSnapshot(
                 transactionIndex: position.transactionIndex,
                 logIndex: position.logIndex,
                 snapshot: snapshot.serialize(),
+                pinnedIds: pinnedIds && pinnedIds.length > 0 ? pinnedIds : null,
             },
             { transaction },
         );
+    } else if (pinnedIds && pinnedIds.length > 0) {
+        // merge pinned ids
+        await _snapshot.update(
+            { pinnedIds: Array.from(new Set([...(_snapshot.pinnedIds ?? []), ...pinnedIds])) },
+            { transaction },
+        );
+    }
+}
+
+/**
+ * Unpin snapshot ids, the snapshot will be deleted as outdated if no ids are pinned
+ * @param chainId Chain ID
+ * @param position Event position
+ * @param ids Snapshot ids
+ * @param transaction Tranasction instance, the row is locked until it is committed
+ */
+export async function unpinSnapshot(
+    chainId: number,
+    position: EventPosition,
+    ids: string[],
+    transaction?: Transaction,
+) {
+    const _snapshot = await SnapshotTable.findOne({
+        attributes: ['id', 'pinnedIds'],
+        where: {
+            chainId,
+            blockNumber: position.blockNumber,
+            transactionIndex: position.transactionIndex,
+            logIndex: position.logIndex,
+        },
+        transaction,
+        lock: transaction ? Transaction.LOCK.UPDATE : undefined,
+    });
+
+    if (_snapshot === null || _snapshot.pinnedIds === null) {
+        return;
+    }
+
+    const pinnedIds = _snapshot.pinnedIds.filter((id) => !ids.includes(id));
+
+    await _snapshot.update({ pinnedIds: pinnedIds.length > 0 ? pinnedIds : null }, { transaction });
+}
+
+/**
+ * Find all pinned snapshot ids
+ * @param chainId Chain ID
+ * @returns Pinned snapshot id and the position of the snapshot
+ */
+export async function findPinnedSnapshots(chainId: number) {
+    const pinned = new Map<string, EventPosition>();
+
+    for (const _snapshot of await SnapshotTable.findAll({
+        attributes: ['blockNumber', 'transactionIndex', 'logIndex', 'pinnedIds'],
+        where: {
+            chainId,
+            pinnedIds: {
+                [Op.ne]: null,
+            },
+        },
+    })) {
+        for (const id of _snapshot.pinnedIds ?? []) {
+            pinned.set(id, {
+                blockNumber: _snapshot.blockNumber,
+                transactionIndex: _snapshot.transactionIndex,
+                logIndex: _snapshot.logIndex,
+            });
+        }
+    }
+
+    return pinned;
+}
+
+/**
+ * Load saved snapshot at position
+ * @param sdk SDK instance
+ * @param position Event position
+ * @returns Snapshot or `undefined` if it doesn't exist
+ */
+export async function loadSnapshot(sdk: SynFuturesV3, position: EventPosition) {
+    const _snapshot = await SnapshotTable.findOne({
+        where: {
+            chainId: sdk.ctx.chainId,
+            blockNumber: position.blockNumber,
+            transactionIndex: position.transactionIndex,
+            logIndex: position.logIndex,
+        },
+    });
+
+    if (_snapshot === null) {
+        return undefined;
     }
+
+    const snapshot = new Snapshot(sdk);
+    snapshot.deserialize(_snapshot.snapshot);
+    return snapshot;
 }
@@ -2,6 +2,7 @@ import { ethers } from 'ethers';
 import { LRUCache } from 'lru-cache';
 import Semaphore from 'semaphore-async-await';
 import { Plugin } from '@synfutures/fx-core';
+import { limitedMap } from '@synfutures/utils';
 import { debug } from '@synfutures/logger';
 
 /**
@@ -75,4 +76,83 @@ export class Blocks extends Plugin {
             }
         }
     }
+
+    /**
+     * Get timestamps of multiple blocks
+     * @param blockNumbers Block numbers
+     * @param parallel Max number of concurrent requests
+     * @returns Timestamps in seconds by block number
+     */
+    async getTimestamps(blockNumbers: number[], parallel = 10) {
+        const unique = Array.from(new Set(blockNumbers));
+
+        const timestamps = await limitedMap(unique, (blockNumber) => this.getTimestamp(blockNumber), parallel);
+
+        return new Map(unique.map((blockNumber, i) => [blockNumber, timestamps[i]]));
+    }
+
+    /**
+     * Get the timestamp of a cached block, no request is sent
+     * @param blockNumber Block number
+     * @returns Timestamp in seconds or `undefined` if the block is not cached
+     */
+    getCachedTimestamp(blockNumber: number) {
+        return this.cache.get(blockNumber)?.timestamp;
+    }
+
+    // get the block timestamp in seconds
+    private async getTimestamp(blockNumber: number) {
+        return (await this.getBlock(blockNumber))!.timestamp;
+    }
+
+    /**
+     * Find the last block at or before the timestamp by binary search
+     * @param timestamp Timestamp in seconds
+     * @param toBlockNumber Upper bound of the search
+     * @param known Known blocks around the timestamp, e.g. blocks of stored events,
+     *              `before` is at or before the timestamp and `after` is after it
+     * @returns Block number or `undefined` if all blocks are after the timestamp
+     */
+    async findBlockNumberByTimestamp(
+        timestamp: number,
+        toBlockNumber: number,
+        known: { before?: number; after?: number } = {},
+    ) {
+        if (known.before !== undefined && known.before >= toBlockNumber) {
+            return toBlockNumber;
+        }
+
+        let low = known.before;
+        let high = known.after;
+
+        if (high === undefined || high > toBlockNumber) {
+            if ((await this.getTimestamp(toBlockNumber)) <= timestamp) {
+                return toBlockNumber;
+            }
+
+            high = toBlockNumber;
+        }
+
+        if (low === undefined) {
+            if ((await this.getTimestamp(0)) > timestamp) {
+                return undefined;
+            }
+
+            low = 0;
+        }
+
+        // the timestamp of block `low` is at or before the target,
+        // and the timestamp of block `high` is after the target
+        while (high - low > 1) {
+            const mid = Math.floor((low + high) / 2);
+
+            if ((await this.getTimestamp(mid)) <= timestamp) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        return low;
+    }
 }
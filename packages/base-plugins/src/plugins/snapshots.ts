@@ -38,6 +38,8 @@ export class Snapshots extends Plugin {
 
     private latestSnapshot?: Snapshot;
     private latestPosition?: EventPosition;
+    // resolved when the latest snapshot and its position have both been updated by the event
+    private updating?: Promise<void>;
 
     constructor(core: Core, private config: SnapshotConfig) {
         super(core);
@@ -104,6 +106,30 @@ export class Snapshots extends Plugin {
         return this.latestSnapshot;
     }
 
+    /**
+     * Serialize the latest snapshot together with its position,
+     * an event being processed is waited for, so that they always match
+     * @returns Serialized snapshot and position, `false` if it is reorging
+     */
+    async serializeLatestSnapshot() {
+        while (this.updating) {
+            await this.updating;
+        }
+
+        if (this.isReorging) {
+            return false;
+        }
+
+        if (!this.latestSnapshot || !this.latestPosition) {
+            return undefined;
+        }
+
+        return {
+            snapshot: this.latestSnapshot.serialize(),
+            position: { ...this.latestPosition },
+        };
+    }
+
     private async work() {
         for await (const event of this.channel) {
             try {
@@ -159,27 +185,42 @@ export class Snapshots extends Plugin {
                                 event.log.transactionIndex === this.latestPosition.transactionIndex &&
                                 event.log.logIndex < this.latestPosition.logIndex);
 
-                        // process new log
-                        await this.latestSnapshot.processParsedLog(event.log, event.parsedLog);
-
-                        if (!messed) {
-                            // update latest position if not messed
-                            this.latestPosition = {
-                                blockNumber: event.log.blockNumber,
-                                transactionIndex: event.log.transactionIndex,
-                                logIndex: event.log.logIndex,
-                            };
-                        } else {
-                            // destroy messed snapshots
+                        let updated!: () => void;
+
+                        this.updating = new Promise<void>((resolve) => (updated = resolve));
+
+                        try {
+                            // process new log
+                            await this.latestSnapshot.processParsedLog(event.log, event.parsedLog);
+
+                            if (!messed) {
+                                // update latest position if not messed
+                                this.latestPosition = {
+                                    blockNumber: event.log.blockNumber,
+                                    transactionIndex: event.log.transactionIndex,
+                                    logIndex: event.log.logIndex,
+                                };
+                            }
+                        } finally {
+                            this.updating = undefined;
+                            updated();
+                        }
+
+                        if (messed) {
+                            // destroy messed snapshots, pinned snapshots are generated from the stored events
                             await SnapshotTable.destroy({
                                 where: {
                                     blockNumber: {
                                         [Op.gte]: event.log.blockNumber,
                                     },
+                                    pinnedIds: null,
                                 },
                             });
                         }
 
+                        // notify that the latest snapshot has been updated
+                        await this.core.emit('snapshotUpdated', event.log, event.parsedLog, this.latestSnapshot);
+
                         // save snapshot if threshold reached
                         if (event.log.blockNumber - this.cache.blockNumber >= this.config.interval) {
                             const transaction = await this.db.sequelize.transaction();
@@ -188,7 +229,8 @@ export class Snapshots extends Plugin {
 
                             try {
                                 const snapshots = await this.db.sequelize.query<{ id: number; blockNumber: number }>(
-                                    'select id, "blockNumber" from "Snapshots" order by "blockNumber" asc',
+                                    // pinned snapshots are never outdated
+                                    'select id, "blockNumber" from "Snapshots" where "pinnedIds" is null order by "blockNumber" asc',
                                     {
                                         type: QueryTypes.SELECT,
                                         transaction,
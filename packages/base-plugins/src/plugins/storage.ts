@@ -40,6 +40,9 @@ export class Storage extends Plugin {
     private synced = false;
 
     private processing = false;
+    private filling?: Promise<void>;
+    // the first block number stored since started, older events are left to the backfill command
+    private fillFrom?: number;
     private blocked?: () => void;
     private blocking?: Promise<void>;
 
@@ -63,6 +66,14 @@ export class Storage extends Plugin {
         return db;
     }
 
+    private get blocks() {
+        const blocks = this.core.getPlugin('Blocks');
+        if (!blocks) {
+            throw new Error('missing Blocks plugin');
+        }
+        return blocks;
+    }
+
     private get sdk() {
         return this.common.sdk;
     }
@@ -265,6 +276,9 @@ export class Storage extends Plugin {
                             status: EventStatus.PROCESSED,
                             address: formatHexString(log.address),
                             data: serializeEventArgs(parsed.args),
+                            // only the blocks of new heads are cached,
+                            // the missing timestamps are filled in the background
+                            timestamp: this.blocks.getCachedTimestamp(log.blockNumber) ?? null,
                         },
                         { transaction },
                     );
@@ -314,6 +328,32 @@ export class Storage extends Plugin {
         }
     }
 
+    // fill the missing timestamps of events stored since started without blocking storing
+    private fillTimestamps(fromBlockNumber: number) {
+        this.fillFrom = Math.min(this.fillFrom ?? fromBlockNumber, fromBlockNumber);
+
+        if (this.filling || this.stopped) {
+            return;
+        }
+
+        this.filling = this.events
+            .fillTimestamps(
+                (blockNumbers) => this.blocks.getTimestamps(blockNumbers),
+                undefined,
+                this.fillFrom,
+                () => this.stopped,
+            )
+            .then((updated) => {
+                updated > 0 && debug('Storage', 'filled timestamps:', updated);
+            })
+            .catch((err) => {
+                warn('Storage', 'fill timestamps error:', err);
+            })
+            .finally(() => {
+                this.filling = undefined;
+            });
+    }
+
     private onNewEvent = async (logs: ethers.providers.Log | ethers.providers.Log[]) => {
         try {
             this.processing = true;
@@ -336,6 +376,10 @@ export class Storage extends Plugin {
                     await new Promise<void>((r) => setTimeout(r, 1000));
                 }
             }
+
+            if (_logs.length > 0) {
+                this.fillTimestamps(_logs[0].blockNumber);
+            }
         } finally {
             this.processing = false;
         }
@@ -365,6 +409,8 @@ export class Storage extends Plugin {
             );
         }
 
+        this.fillTimestamps(reorgBlockNumber);
+
         info('Storage', 'reorg usage:', tracker.usage());
     }
 
@@ -420,5 +466,7 @@ export class Storage extends Plugin {
     async onStop() {
         this.core.blocking.off('newEvent', this.onNewEvent);
         this.core.blocking.off('synced', this.onSynced);
+
+        await this.filling;
     }
 }
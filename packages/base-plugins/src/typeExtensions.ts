@@ -1,5 +1,6 @@
 import '@synfutures/fx-core';
 import type { ethers } from 'ethers';
+import type { Snapshot } from '@synfutures/oyster-sdk';
 import type { Common, Blocks, DB, Source, Storage, Snapshots } from './plugins';
 
 declare module '@synfutures/fx-core' {
@@ -15,6 +16,8 @@ declare module '@synfutures/fx-core' {
         newParsedEvent: (log: ethers.providers.Log, parsed: ethers.utils.LogDescription, processed: boolean) => void;
 
         newStoredBlockNumber: (blockNumber: number) => void;
+
+        snapshotUpdated: (log: ethers.providers.Log, parsed: ethers.utils.LogDescription, snapshot: Snapshot) => void;
     }
 
     interface Plugins {
@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import crypto from 'crypto';
-import { ethers, BigNumber } from 'ethers';
+import { ethers } from 'ethers';
 import { Event } from '@synfutures/db';
+import { serializeEventArgs, deserializeEventArgs } from '@synfutures/utils';
 
 // used to sort logs
 export function compareLog(
@@ -35,45 +36,7 @@ export function formatHexString(str: string) {
     return str.startsWith('0x') ? str.slice(2).toLowerCase() : str.toLowerCase();
 }
 
-export function serializeEventArgs(obj: any) {
-    const result: any = {};
-    for (const [k, v] of Object.entries(obj)) {
-        if (v instanceof ethers.BigNumber) {
-            result[k] = {
-                bn: true,
-                value: v.toString(),
-            };
-        } else if (typeof v === 'object') {
-            result[k] = serializeEventArgs(v);
-        } else {
-            result[k] = v;
-        }
-    }
-
-    // additional length for args
-    if (obj.length > 0) {
-        result['length'] = obj.length;
-    }
-
-    return result;
-}
-
-export function deserializeEventArgs(obj: any) {
-    const result: any = {};
-    for (const [k, v] of Object.entries(obj)) {
-        if (typeof v === 'object' && v !== null) {
-            const _v: any = v;
-            if (_v.bn && _v.value) {
-                result[k] = BigNumber.from(_v.value);
-            } else {
-                result[k] = deserializeEventArgs(v);
-            }
-        } else {
-            result[k] = v;
-        }
-    }
-    return result;
-}
+export { serializeEventArgs, deserializeEventArgs };
 
 export function fromDBEvent(event: Event) {
     const log = {
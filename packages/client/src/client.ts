@@ -1,166 +1,809 @@
 import EventEmitter from 'events';
 import { ethers } from 'ethers';
-import amqplib from 'amqplib';
-import Semaphore from 'semaphore-async-await';
-import { parseOrderTickNonce } from '@synfutures/oyster-sdk';
-import { WebSocket, WebSocketConfig, JSONRPCWebSocket } from '@synfutures/utils';
+import { SynFuturesV3, parseOrderTickNonce, parseTicks } from '@synfutures/oyster-sdk';
+import { WebSocket, WebSocketConfig, JSONRPCWebSocket, ConnectionLossError } from '@synfutures/utils';
 import {
+    StateResponse,
+    GenerateSnapshotRequest,
+    GenerateSnapshotResponse,
+    ClearSnapshotRequest,
+    ClearSnapshotResponse,
+    ListSnapshotsResponse,
+    ExportSnapshotRequest,
+    ExportSnapshotResponse,
+    ListInstrumentsRequest,
+    ListInstrumentsResponse,
+    ListPairsRequest,
+    ListPairsResponse,
     QueryAccountRequest,
     QueryAccountResponse,
+    QueryTraderPortfolioRequest,
+    QueryTraderPortfolioResponse,
+    QueryRangeRequest,
+    QueryRangeResponse,
+    QueryAccountHistoryRequest,
+    QueryAccountHistoryResponse,
+    AccountHistoryRecord,
+    QueryAMMRequest,
+    QueryAMMResponse,
+    QueryDepthRequest,
+    QueryDepthResponse,
+    QueryAMMHistoryRequest,
+    QueryAMMHistoryResponse,
+    AMMHistorySample,
+    QueryFundingHistoryRequest,
+    QueryFundingHistoryResponse,
+    QueryEventsRequest,
+    QueryEventsResponse,
     SubscribeOrderFilledRequest,
     UnsubscribeOrderFilledRequest,
     OrderFilledNotification,
+    SubscribePositionChangedRequest,
+    UnsubscribePositionChangedRequest,
+    PositionChangedNotification,
+    SubscribeAMMChangedRequest,
+    UnsubscribeAMMChangedRequest,
+    AMMChangedNotification,
+    SubscribeLiquidationRiskRequest,
+    UnsubscribeLiquidationRiskRequest,
+    LiquidationRiskNotification,
+    SubscribeSnapshotInvalidatedRequest,
+    SnapshotInvalidatedNotification,
+    SnapshotEventNotification,
 } from './types';
+import { SnapshotMirror } from './mirror';
+import {
+    Transport,
+    AMQPTopic,
+    AMQPTransport,
+    WebSocketTransport,
+    Deliver,
+    Report,
+    ConnectionSource,
+} from './transport';
 
 export interface OysterClientConfig extends Omit<WebSocketConfig, 'url'> {
     serverUrl: string;
-    amqpUrl: string;
+    // notifications are delivered through websocket if it is not specified
+    amqpUrl?: string;
+    // AMQP client id, default: `default`, the queue of the client is kept by the server
+    // until all its subscriptions are removed, so it should be stable across restarts
+    clientId?: string;
+    // number of retries of idempotent queries when the connection is lost, default: 0,
+    // timed out requests are not retried, the server may still be processing them
+    retries?: number;
+    // delay before the first retry, doubled on each retry, default: 1000ms
+    retryDelay?: number;
+}
+
+// AMQP client id of the server when it is not specified
+const defaultClientId = 'default';
+
+// timeout of resubscription requests after reconnection
+const restoreTimeout = 3000;
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+// event names of notification types
+const events = {
+    orderFilled: 'order-filled',
+    positionChanged: 'position-changed',
+    ammChanged: 'amm-changed',
+    liquidationRisk: 'liquidation-risk',
+    snapshotInvalidated: 'snapshot-invalidated',
+    snapshotEvents: 'snapshot-event',
+} as const;
+
+// notification content by event name
+type Notifications = {
+    'order-filled': OrderFilledNotification;
+    'position-changed': PositionChangedNotification;
+    'amm-changed': AMMChangedNotification;
+    'liquidation-risk': LiquidationRiskNotification;
+    'snapshot-invalidated': SnapshotInvalidatedNotification;
+    'snapshot-event': SnapshotEventNotification;
+};
+
+function decodeOptional(value?: string) {
+    return value === undefined ? undefined : ethers.BigNumber.from(value);
+}
+
+function decodeAccount(response: QueryAccountResponse) {
+    const orders: { tick: number; nonce: number; balance: ethers.BigNumber; size: ethers.BigNumber }[] = [];
+
+    for (const [oid, order] of Object.entries(response.orders)) {
+        const { tick, nonce } = parseOrderTickNonce(Number(oid));
+
+        orders.push({
+            tick,
+            nonce,
+            balance: ethers.BigNumber.from(order.balance),
+            size: ethers.BigNumber.from(order.size),
+        });
+    }
+
+    const ranges: {
+        rid: number;
+        tickLower: number;
+        tickUpper: number;
+        liquidity: ethers.BigNumber;
+        entryFeeIndex: ethers.BigNumber;
+        balance: ethers.BigNumber;
+        sqrtEntryPX96: ethers.BigNumber;
+    }[] = [];
+
+    for (const [rid, range] of Object.entries(response.ranges)) {
+        const { tickLower, tickUpper } = parseTicks(Number(rid));
+
+        ranges.push({
+            rid: Number(rid),
+            tickLower,
+            tickUpper,
+            liquidity: ethers.BigNumber.from(range.liquidity),
+            entryFeeIndex: ethers.BigNumber.from(range.entryFeeIndex),
+            balance: ethers.BigNumber.from(range.balance),
+            sqrtEntryPX96: ethers.BigNumber.from(range.sqrtEntryPX96),
+        });
+    }
+
+    return {
+        position: {
+            balance: ethers.BigNumber.from(response.position.balance),
+            size: ethers.BigNumber.from(response.position.size),
+            entryNotional: ethers.BigNumber.from(response.position.entryNotional),
+            entrySocialLossIndex: ethers.BigNumber.from(response.position.entrySocialLossIndex),
+            entryFundingIndex: ethers.BigNumber.from(response.position.entryFundingIndex),
+        },
+        orders,
+        ranges,
+    };
 }
 
-const orderFilledQueue = 'order-filled';
+function decodeAccountRecord({ account, ...record }: AccountHistoryRecord) {
+    return {
+        ...record,
+        account: account && decodeAccount(account),
+    };
+}
+
+function decodeAMM(response: QueryAMMResponse) {
+    return {
+        timestamp: response.timestamp,
+        status: response.status,
+        tick: response.tick,
+        sqrtPX96: ethers.BigNumber.from(response.sqrtPX96),
+        liquidity: ethers.BigNumber.from(response.liquidity),
+        totalLiquidity: ethers.BigNumber.from(response.totalLiquidity),
+        involvedFund: ethers.BigNumber.from(response.involvedFund),
+        openInterests: ethers.BigNumber.from(response.openInterests),
+        feeIndex: ethers.BigNumber.from(response.feeIndex),
+        protocolFee: ethers.BigNumber.from(response.protocolFee),
+        totalLong: ethers.BigNumber.from(response.totalLong),
+        totalShort: ethers.BigNumber.from(response.totalShort),
+        longSocialLossIndex: ethers.BigNumber.from(response.longSocialLossIndex),
+        shortSocialLossIndex: ethers.BigNumber.from(response.shortSocialLossIndex),
+        longFundingIndex: ethers.BigNumber.from(response.longFundingIndex),
+        shortFundingIndex: ethers.BigNumber.from(response.shortFundingIndex),
+        insuranceFund: ethers.BigNumber.from(response.insuranceFund),
+        settlementPrice: ethers.BigNumber.from(response.settlementPrice),
+    };
+}
+
+function decodeAMMSample({ blockNumber, name, transactionIndex, logIndex, ...amm }: AMMHistorySample) {
+    return {
+        blockNumber,
+        name,
+        transactionIndex,
+        logIndex,
+        ...decodeAMM(amm),
+    };
+}
 
 export interface OysterClient {
-    on(event: 'order-filled', listener: (msg: OrderFilledNotification, ack: () => void) => void): this;
+    on<E extends keyof Notifications>(event: E, listener: (msg: Notifications[E], ack: () => void) => void): this;
+    on(event: 'disconnected' | 'reconnected', listener: (source: ConnectionSource) => void): this;
 
-    off(event: 'order-filled', listener: (msg: OrderFilledNotification, ack: () => void) => void): this;
+    off<E extends keyof Notifications>(event: E, listener: (msg: Notifications[E], ack: () => void) => void): this;
+    off(event: 'disconnected' | 'reconnected', listener: (source: ConnectionSource) => void): this;
 
-    emit(event: 'order-filled', msg: OrderFilledNotification, ack: () => void): boolean;
+    emit<E extends keyof Notifications>(event: E, msg: Notifications[E], ack: () => void): boolean;
+    emit(event: 'disconnected' | 'reconnected', source: ConnectionSource): boolean;
 }
 
 export class OysterClient extends EventEmitter {
     private ws: WebSocket;
     private jsonrpc: JSONRPCWebSocket;
-    private connection: amqplib.Connection;
-    private channels = new Map<string, { channel: amqplib.Channel; size: number }>();
+    // notifications which can be delivered through AMQP
+    private transport: Transport<AMQPTopic>;
+    // notifications which are only delivered through websocket
+    private websocket: WebSocketTransport;
+
+    private retries: number;
+    private retryDelay: number;
 
-    private lock = new Semaphore(1);
+    // whether the websocket is connected now and whether it has ever been connected
+    private connected = false;
+    private everConnected = false;
+    private stopped = false;
 
-    constructor(private config: OysterClientConfig) {
+    constructor(config: OysterClientConfig) {
         super();
         this.ws = new WebSocket({ ...config, url: config.serverUrl });
         this.jsonrpc = new JSONRPCWebSocket(this.ws);
+        this.retries = config.retries ?? 0;
+        this.retryDelay = config.retryDelay ?? 1000;
+
+        const deliver: Deliver = (type, msg, ack) => this.emit(events[type], msg, ack);
+        const report: Report = (event, source) => this.emit(event, source);
+
+        this.websocket = new WebSocketTransport(this.jsonrpc, deliver);
+        if (config.amqpUrl !== undefined) {
+            this.transport = new AMQPTransport(
+                this.jsonrpc,
+                deliver,
+                report,
+                config.amqpUrl,
+                config.clientId ?? defaultClientId,
+            );
+        } else {
+            this.transport = this.websocket;
+        }
+    }
+
+    private onConnected = () => {
+        this.connected = true;
+
+        if (!this.everConnected) {
+            this.everConnected = true;
+            return;
+        }
+
+        // subscribe again, reconnect if it fails
+        this.restore().then(
+            () => this.emit('reconnected', 'websocket'),
+            () => {
+                if (!this.stopped) {
+                    this.ws.reconnect();
+                }
+            },
+        );
+    };
+
+    private onClosed = () => {
+        if (this.connected) {
+            this.connected = false;
+
+            this.emit('disconnected', 'websocket');
+        }
+    };
+
+    // subscribe to all topics of both transports again
+    private async restore() {
+        await this.websocket.restore(restoreTimeout);
+
+        if (this.transport !== this.websocket) {
+            await this.transport.restore(restoreTimeout);
+        }
+    }
+
+    // send a request whose results are pushed through the stream in chunks before the response,
+    // it is not retried, otherwise the chunks may be delivered repeatedly
+    private async requestStream<T>(method: string, params: object, timeout: number, onChunk: (chunk: T[]) => void) {
+        const stream = ethers.utils.hexlify(ethers.utils.randomBytes(8));
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const onNotify = (method: string, params: any) => {
+            if (method === 'stream' && params.stream === stream) {
+                onChunk(params.result);
+            }
+        };
+
+        this.jsonrpc.on('notify', onNotify);
+
+        try {
+            return await this.jsonrpc.request(method, { ...params, stream }, timeout);
+        } finally {
+            this.jsonrpc.off('notify', onNotify);
+        }
+    }
+
+    // send an idempotent request,
+    // retry with exponential backoff if the connection is lost before the response
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private async request(method: string, params: any, timeout: number) {
+        for (let i = 0; ; i++) {
+            try {
+                return await this.jsonrpc.request(method, params, timeout);
+            } catch (err) {
+                // errors returned by the server and timeouts will not be retried
+                if (!(err instanceof ConnectionLossError) || this.stopped || i >= this.retries) {
+                    throw err;
+                }
+
+                await sleep(this.retryDelay * 2 ** i);
+            }
+        }
+    }
+
+    /**
+     * Query server state
+     * @param timeout Request timeout, default: 3s
+     * @returns Server state
+     */
+    async state(timeout: number = 3000) {
+        const response: StateResponse = await this.request('state', undefined, timeout);
+
+        return response;
+    }
+
+    /**
+     * Generate a snapshot at the block number, event position or block timestamp
+     * @param request Snapshot position
+     * @param timeout Request timeout, default: 60s
+     * @returns Snapshot id
+     */
+    async generateSnapshot(request: GenerateSnapshotRequest, timeout: number = 60000) {
+        const response: GenerateSnapshotResponse = await this.jsonrpc.request('generateSnapshot', request, timeout);
+
+        return response;
     }
 
     /**
-     * Query account information
+     * Clear the generated snapshot
+     * @param id Snapshot id
+     * @param timeout Request timeout, default: 3s
+     * @returns Whether the snapshot existed
+     */
+    async clearSnapshot(id: string, timeout: number = 3000) {
+        const request: ClearSnapshotRequest = id;
+
+        const response: ClearSnapshotResponse = await this.jsonrpc.request('clearSnapshot', request, timeout);
+
+        return response;
+    }
+
+    /**
+     * List generated snapshots
+     * @param timeout Request timeout, default: 3s
+     * @returns Snapshot information by id
+     */
+    async listSnapshots(timeout: number = 3000) {
+        const response: ListSnapshotsResponse = await this.request('listSnapshots', undefined, timeout);
+
+        return response;
+    }
+
+    /**
+     * Export a serialized snapshot, it can be loaded by `Snapshot.deserialize` of the SDK
+     * @param id Snapshot id, default: the latest snapshot
+     * @param timeout Request timeout, default: 60s
+     * @returns Snapshot position and serialized snapshot
+     */
+    async exportSnapshot(id?: string, timeout: number = 60000) {
+        const request: ExportSnapshotRequest = { id };
+
+        const response: ExportSnapshotResponse = await this.request('exportSnapshot', request, timeout);
+
+        return response;
+    }
+
+    /**
+     * Create a local mirror of the latest snapshot,
+     * it is kept updated by the events streamed from the server, queries on it have no round trips
+     * @param sdk SDK instance used to create the local snapshot
+     * @returns Snapshot mirror, call `init` to start syncing
+     */
+    mirror(sdk: SynFuturesV3) {
+        return new SnapshotMirror(this, this.jsonrpc, sdk);
+    }
+
+    /**
+     * Generate a snapshot, use it and clear it
+     * @param request Snapshot position
+     * @param fn Function using the snapshot id
+     * @param timeout Generating timeout, default: 60s
+     * @returns The result of `fn`
+     */
+    async withSnapshot<T>(request: GenerateSnapshotRequest, fn: (id: string) => Promise<T>, timeout: number = 60000) {
+        const id = await this.generateSnapshot(request, timeout);
+
+        try {
+            return await fn(id);
+        } finally {
+            // ignore error, the snapshot will be evicted eventually
+            await this.clearSnapshot(id).catch(() => undefined);
+        }
+    }
+
+    /**
+     * List instruments
+     * @param id Snapshot id, default: latest snapshot
+     * @param timeout Request timeout, default: 3s
+     * @returns Instrument list
+     */
+    async listInstruments(id?: string, timeout: number = 3000) {
+        const request: ListInstrumentsRequest = { id };
+
+        const response: ListInstrumentsResponse = await this.request('listInstruments', request, timeout);
+
+        return response;
+    }
+
+    /**
+     * List pairs
+     * @param instrument Instrument address, default: all instruments
+     * @param id Snapshot id, default: latest snapshot
+     * @param timeout Request timeout, default: 3s
+     * @returns Pair list
+     */
+    async listPairs(instrument?: string, id?: string, timeout: number = 3000) {
+        const request: ListPairsRequest = { instrument, id };
+
+        const response: ListPairsResponse = await this.request('listPairs', request, timeout);
+
+        return response;
+    }
+
+    /**
+     * Query account information,
+     * unlike other queries, the timeout comes before the snapshot id to stay compatible
      * @param address User address
      * @param instrument Instrument address
      * @param expiry Pair expiry
      * @param timeout Request timeout, default: 3s
+     * @param id Snapshot id, default: latest snapshot
      * @returns Account information
      */
-    async queryAccount(address: string, instrument: string, expiry: number, timeout: number = 3000) {
-        const request: QueryAccountRequest = { address, instrument, expiry };
+    async queryAccount(address: string, instrument: string, expiry: number, timeout: number = 3000, id?: string) {
+        const request: QueryAccountRequest = { address, instrument, expiry, id };
+
+        const response: QueryAccountResponse = await this.request('queryAccount', request, timeout);
+
+        return decodeAccount(response);
+    }
+
+    /**
+     * Query all non-empty accounts of the trader
+     * @param address User address
+     * @param id Snapshot id, default: latest snapshot
+     * @param timeout Request timeout, default: 3s
+     * @returns Account list
+     */
+    async queryTraderPortfolio(address: string, id?: string, timeout: number = 3000) {
+        const request: QueryTraderPortfolioRequest = { address, id };
+
+        const response: QueryTraderPortfolioResponse = await this.request('queryTraderPortfolio', request, timeout);
+
+        return response.map((account) => ({
+            instrument: account.instrument,
+            expiry: account.expiry,
+            ...decodeAccount(account),
+        }));
+    }
+
+    /**
+     * Query ranges with the estimated fee and removal value
+     * @param address User address
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param rid Range id, all ranges of the account will be returned if it is not specified
+     * @param id Snapshot id, default: latest snapshot
+     * @param timeout Request timeout, default: 3s
+     * @returns Range list
+     */
+    async queryRange(
+        address: string,
+        instrument: string,
+        expiry: number,
+        rid?: number,
+        id?: string,
+        timeout: number = 3000,
+    ) {
+        const request: QueryRangeRequest = { address, instrument, expiry, rid, id };
+
+        const response: QueryRangeResponse = await this.request('queryRange', request, timeout);
+
+        return response.map((range) => ({
+            rid: range.rid,
+            tickLower: range.tickLower,
+            tickUpper: range.tickUpper,
+            liquidity: ethers.BigNumber.from(range.liquidity),
+            balance: ethers.BigNumber.from(range.balance),
+            entryFeeIndex: ethers.BigNumber.from(range.entryFeeIndex),
+            sqrtEntryPX96: ethers.BigNumber.from(range.sqrtEntryPX96),
+            size: ethers.BigNumber.from(range.size),
+            fee: ethers.BigNumber.from(range.fee),
+            pnl: ethers.BigNumber.from(range.pnl),
+            value: ethers.BigNumber.from(range.value),
+        }));
+    }
+
+    /**
+     * Query the account after every event of the trader over a block range
+     * @param request Request params
+     * @param timeout Request timeout, default: 60s
+     * @param onRecords Receive the records in chunks through websocket instead of the response
+     * @returns Account records, empty if they are streamed
+     */
+    async queryAccountHistory(
+        request: Omit<QueryAccountHistoryRequest, 'stream'>,
+        timeout: number = 60000,
+        onRecords?: (records: ReturnType<typeof decodeAccountRecord>[]) => void,
+    ) {
+        const response: QueryAccountHistoryResponse = onRecords
+            ? await this.requestStream<AccountHistoryRecord>('queryAccountHistory', request, timeout, (chunk) =>
+                  onRecords(chunk.map(decodeAccountRecord)),
+              )
+            : await this.request('queryAccountHistory', request, timeout);
+
+        return {
+            count: response.count,
+            records: (response.records ?? []).map(decodeAccountRecord),
+            next: response.next,
+        };
+    }
+
+    /**
+     * Query AMM information
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param id Snapshot id, default: latest snapshot
+     * @param timeout Request timeout, default: 3s
+     * @returns AMM information
+     */
+    async queryAMM(instrument: string, expiry: number, id?: string, timeout: number = 3000) {
+        const request: QueryAMMRequest = { instrument, expiry, id };
 
-        const response: QueryAccountResponse = await this.jsonrpc.request('queryAccount', request, timeout);
+        const response: QueryAMMResponse = await this.request('queryAMM', request, timeout);
 
-        const orders: { tick: number; nonce: number; balance: ethers.BigNumber; size: ethers.BigNumber }[] = [];
+        return decodeAMM(response);
+    }
 
-        for (const [oid, order] of Object.entries(response.orders)) {
-            const { tick, nonce } = parseOrderTickNonce(Number(oid));
+    /**
+     * Query resting limit orders and range liquidity around the current tick
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param levels Max number of ticks on each side, default: 20
+     * @param id Snapshot id, default: latest snapshot
+     * @param timeout Request timeout, default: 3s
+     * @returns Depth information
+     */
+    async queryDepth(instrument: string, expiry: number, levels?: number, id?: string, timeout: number = 3000) {
+        const request: QueryDepthRequest = { instrument, expiry, levels, id };
+
+        const response: QueryDepthResponse = await this.request('queryDepth', request, timeout);
 
-            orders.push({
+        return {
+            tick: response.tick,
+            sqrtPX96: ethers.BigNumber.from(response.sqrtPX96),
+            liquidity: ethers.BigNumber.from(response.liquidity),
+            bids: response.bids.map(({ tick, size }) => ({ tick, size: ethers.BigNumber.from(size) })),
+            asks: response.asks.map(({ tick, size }) => ({ tick, size: ethers.BigNumber.from(size) })),
+            ranges: response.ranges.map(({ tick, liquidity }) => ({
                 tick,
-                nonce,
-                balance: ethers.BigNumber.from(order.balance),
-                size: ethers.BigNumber.from(order.size),
-            });
-        }
+                liquidity: ethers.BigNumber.from(liquidity),
+            })),
+        };
+    }
+
+    /**
+     * Query AMM information over a block range
+     * @param request Request params
+     * @param timeout Request timeout, default: 60s
+     * @param onSamples Receive the samples in chunks through websocket instead of the response
+     * @returns AMM samples, empty if they are streamed
+     */
+    async queryAMMHistory(
+        request: Omit<QueryAMMHistoryRequest, 'stream'>,
+        timeout: number = 60000,
+        onSamples?: (samples: ReturnType<typeof decodeAMMSample>[]) => void,
+    ) {
+        const response: QueryAMMHistoryResponse = onSamples
+            ? await this.requestStream<AMMHistorySample>('queryAMMHistory', request, timeout, (chunk) =>
+                  onSamples(chunk.map(decodeAMMSample)),
+              )
+            : await this.request('queryAMMHistory', request, timeout);
 
-        // TODO: ranges?
         return {
-            position: {
-                balance: ethers.BigNumber.from(response.position.balance),
-                size: ethers.BigNumber.from(response.position.size),
-                entryNotional: ethers.BigNumber.from(response.position.entryNotional),
-                entrySocialLossIndex: ethers.BigNumber.from(response.position.entrySocialLossIndex),
-                entryFundingIndex: ethers.BigNumber.from(response.position.entryFundingIndex),
-            },
-            orders,
+            count: response.count,
+            samples: (response.samples ?? []).map(decodeAMMSample),
+            next: response.next,
         };
     }
 
+    /**
+     * Query funding and fee accrual over a block range
+     * @param request Request params
+     * @param timeout Request timeout, default: 60s
+     * @returns Intervals
+     */
+    async queryFundingHistory(request: QueryFundingHistoryRequest, timeout: number = 60000) {
+        const response: QueryFundingHistoryResponse = await this.request('queryFundingHistory', request, timeout);
+
+        return response.intervals.map((interval) => ({
+            from: interval.from,
+            to: interval.to,
+            fromTimestamp: interval.fromTimestamp,
+            toTimestamp: interval.toTimestamp,
+            longFunding: ethers.BigNumber.from(interval.longFunding),
+            shortFunding: ethers.BigNumber.from(interval.shortFunding),
+            fee: ethers.BigNumber.from(interval.fee),
+            longFundingRate: decodeOptional(interval.longFundingRate),
+            shortFundingRate: decodeOptional(interval.shortFundingRate),
+            feeRate: decodeOptional(interval.feeRate),
+            longFundingAPR: decodeOptional(interval.longFundingAPR),
+            shortFundingAPR: decodeOptional(interval.shortFundingAPR),
+            feeAPR: decodeOptional(interval.feeAPR),
+        }));
+    }
+
+    /**
+     * Query stored events, event args are returned as they are
+     * @param request Request params
+     * @param timeout Request timeout, default: 3s
+     * @returns Events and the cursor of the next page
+     */
+    async queryEvents(request: QueryEventsRequest, timeout: number = 3000) {
+        const response: QueryEventsResponse = await this.request('queryEvents', request, timeout);
+
+        return response;
+    }
+
     /**
      * Subscribe order filled event
-     * Notifications will be delivered via MQ
+     * Notifications will be delivered via MQ if `amqpUrl` is specified, otherwise via websocket
      * @param address User address
      * @param timeout Request timeout, default: 3s
      */
     async subscribeOrderFilled(address: string, timeout: number = 3000) {
         const request: SubscribeOrderFilledRequest = { address };
 
-        await this.jsonrpc.request('subscribeOrderFilled', request, timeout);
+        await this.transport.subscribe({ type: 'orderFilled', params: request }, timeout);
+    }
 
-        await this.lock.acquire();
+    /**
+     * Unsubscribe order filled event
+     * @param address User address
+     * @param timeout Request timeout, default: 3s
+     */
+    async unsubscribeOrderFilled(address: string, timeout: number = 3000) {
+        const request: UnsubscribeOrderFilledRequest = { address };
 
-        try {
-            const channelInfo = this.channels.get(orderFilledQueue);
+        await this.transport.unsubscribe({ type: 'orderFilled', params: request }, timeout);
+    }
+
+    /**
+     * Subscribe position changed event
+     * Notifications will be delivered via MQ if `amqpUrl` is specified, otherwise via websocket
+     * @param address User address
+     * @param timeout Request timeout, default: 3s
+     */
+    async subscribePositionChanged(address: string, timeout: number = 3000) {
+        const request: SubscribePositionChangedRequest = { address };
+
+        await this.transport.subscribe({ type: 'positionChanged', params: request }, timeout);
+    }
 
-            if (!channelInfo) {
-                const channel = await this.connection.createChannel();
+    /**
+     * Unsubscribe position changed event
+     * @param address User address
+     * @param timeout Request timeout, default: 3s
+     */
+    async unsubscribePositionChanged(address: string, timeout: number = 3000) {
+        const request: UnsubscribePositionChangedRequest = { address };
 
-                await channel.assertQueue(orderFilledQueue);
+        await this.transport.unsubscribe({ type: 'positionChanged', params: request }, timeout);
+    }
 
-                channel.consume(orderFilledQueue, (msg) => {
-                    if (msg === null) {
-                        // ignore canceled message
-                        return;
-                    }
+    /**
+     * Subscribe AMM changed event
+     * Notifications will be delivered via MQ if `amqpUrl` is specified, otherwise via websocket
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param throttle Only notify the latest state of each block, default: false
+     * @param timeout Request timeout, default: 3s
+     */
+    async subscribeAMMChanged(instrument: string, expiry: number, throttle?: boolean, timeout: number = 3000) {
+        const request: SubscribeAMMChangedRequest = { instrument, expiry, throttle };
 
-                    try {
-                        const data = JSON.parse(msg.content.toString());
+        await this.transport.subscribe({ type: 'ammChanged', params: request }, timeout);
+    }
 
-                        this.emit(orderFilledQueue, data, () => channel.ack(msg));
-                    } catch (err) {
-                        // ignore error
-                    }
-                });
+    /**
+     * Unsubscribe AMM changed event
+     * @param instrument Instrument address
+     * @param expiry Pair expiry
+     * @param timeout Request timeout, default: 3s
+     */
+    async unsubscribeAMMChanged(instrument: string, expiry: number, timeout: number = 3000) {
+        const request: UnsubscribeAMMChangedRequest = { instrument, expiry };
 
-                this.channels.set(orderFilledQueue, { channel, size: 1 });
-            } else {
-                channelInfo.size += 1;
-            }
-        } finally {
-            this.lock.release();
-        }
+        await this.transport.unsubscribe({ type: 'ammChanged', params: request }, timeout);
     }
 
     /**
-     * Unsubscribe order filled event
+     * Subscribe liquidation risk alert
+     * Notifications will be delivered via MQ if `amqpUrl` is specified, otherwise via websocket
      * @param address User address
+     * @param threshold Multiple of the maintenance margin ratio
      * @param timeout Request timeout, default: 3s
      */
-    async unsubscribeOrderFilled(address: string, timeout: number = 3000) {
-        const request: UnsubscribeOrderFilledRequest = { address };
+    async subscribeLiquidationRisk(address: string, threshold: number, timeout: number = 3000) {
+        const request: SubscribeLiquidationRiskRequest = { address, threshold };
 
-        await this.jsonrpc.request('unsubscribeOrderFilled', request, timeout);
+        await this.transport.subscribe({ type: 'liquidationRisk', params: request }, timeout);
+    }
 
-        await this.lock.acquire();
+    /**
+     * Unsubscribe liquidation risk alert
+     * @param address User address
+     * @param timeout Request timeout, default: 3s
+     */
+    async unsubscribeLiquidationRisk(address: string, timeout: number = 3000) {
+        const request: UnsubscribeLiquidationRiskRequest = { address };
 
-        try {
-            const channelInfo = this.channels.get(orderFilledQueue);
+        await this.transport.unsubscribe({ type: 'liquidationRisk', params: request }, timeout);
+    }
 
-            if (channelInfo && --channelInfo.size === 0) {
-                this.channels.delete(orderFilledQueue);
+    /**
+     * Subscribe snapshot invalidated event through websocket
+     * @param id Snapshot id, default: all snapshots
+     * @param timeout Request timeout, default: 3s
+     */
+    async subscribeSnapshotInvalidated(id?: string, timeout: number = 3000) {
+        const request: SubscribeSnapshotInvalidatedRequest = { id };
 
-                await channelInfo.channel.close();
-            }
-        } finally {
-            this.lock.release();
-        }
+        await this.websocket.subscribe({ type: 'snapshotInvalidated', params: request }, timeout);
+    }
+
+    /**
+     * Unsubscribe snapshot invalidated event
+     * @param id Snapshot id, default: all snapshots
+     * @param timeout Request timeout, default: 3s
+     */
+    async unsubscribeSnapshotInvalidated(id?: string, timeout: number = 3000) {
+        const request: SubscribeSnapshotInvalidatedRequest = { id };
+
+        await this.websocket.unsubscribe({ type: 'snapshotInvalidated', params: request }, timeout);
+    }
+
+    /**
+     * Subscribe the events processed by the latest snapshot through websocket,
+     * use `mirror` to keep a local snapshot updated by them
+     * @param timeout Request timeout, default: 3s
+     */
+    async subscribeSnapshotEvents(timeout: number = 3000) {
+        await this.websocket.subscribe({ type: 'snapshotEvents', params: undefined }, timeout);
+    }
+
+    /**
+     * Unsubscribe the events processed by the latest snapshot
+     * @param timeout Request timeout, default: 3s
+     */
+    async unsubscribeSnapshotEvents(timeout: number = 3000) {
+        await this.websocket.unsubscribe({ type: 'snapshotEvents', params: undefined }, timeout);
     }
 
     /**
      * Initialize the client
      */
     async init() {
-        this.connection = await amqplib.connect(this.config.amqpUrl);
+        await this.websocket.init();
+
+        if (this.transport !== this.websocket) {
+            await this.transport.init();
+        }
     }
 
     /**
      * Start running
      */
     async start() {
+        this.ws.on('connected', this.onConnected);
+        this.ws.on('closed', this.onClosed);
+
         this.jsonrpc.start();
     }
 
@@ -169,12 +812,17 @@ export class OysterClient extends EventEmitter {
      * All in-progress requests will throw an error
      */
     async stop() {
+        this.stopped = true;
+
+        this.ws.off('connected', this.onConnected);
+        this.ws.off('closed', this.onClosed);
+
         this.jsonrpc.stop();
 
-        for (const { channel } of this.channels.values()) {
-            await channel.close();
-        }
+        await this.websocket.stop();
 
-        await this.connection.close();
+        if (this.transport !== this.websocket) {
+            await this.transport.stop();
+        }
     }
 }
@@ -1,2 +1,4 @@
 export * from './client';
 export * from './types';
+export * from './transport';
+export * from './mirror';
@@ -0,0 +1,281 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import EventEmitter from 'events';
+import { ethers } from 'ethers';
+import { Snapshot, SynFuturesV3 } from '@synfutures/oyster-sdk';
+import { JSONRPCWebSocket, ConnectionLossError, deserializeEventArgs } from '@synfutures/utils';
+import type { OysterClient } from './client';
+import type { ConnectionSource } from './transport';
+import { EventPosition, SnapshotEventNotification, SnapshotErrorCode } from './types';
+
+// delay before downloading the snapshot again after a failure
+const retryDelay = 1000;
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+// whether the event is after the snapshot position,
+// a snapshot without transaction index and log index contains the whole block
+function isAfter(log: EventPosition, position: Partial<EventPosition> & { blockNumber: number }) {
+    if (log.blockNumber !== position.blockNumber) {
+        return log.blockNumber > position.blockNumber;
+    }
+
+    if (position.transactionIndex === undefined || position.logIndex === undefined) {
+        return false;
+    }
+
+    return log.transactionIndex !== position.transactionIndex
+        ? log.transactionIndex > position.transactionIndex
+        : log.logIndex > position.logIndex;
+}
+
+// whether the snapshot can be downloaded again later
+function isTransient(err: any) {
+    return err instanceof ConnectionLossError || err?.code === SnapshotErrorCode.Reorging;
+}
+
+type Event = Exclude<SnapshotEventNotification, { reorgBlockNumber: number }>;
+
+type Local = {
+    snapshot: Snapshot;
+    position: Partial<EventPosition> & { blockNumber: number };
+};
+
+export interface SnapshotMirror {
+    on(event: 'synced', listener: (position: Local['position']) => void): this;
+    on(event: 'updated', listener: (position: EventPosition) => void): this;
+    on(event: 'stale', listener: () => void): this;
+    on(event: 'error', listener: (err: any) => void): this;
+
+    off(event: 'synced', listener: (position: Local['position']) => void): this;
+    off(event: 'updated', listener: (position: EventPosition) => void): this;
+    off(event: 'stale', listener: () => void): this;
+    off(event: 'error', listener: (err: any) => void): this;
+
+    emit(event: 'synced', position: Local['position']): boolean;
+    emit(event: 'updated', position: EventPosition): boolean;
+    emit(event: 'stale'): boolean;
+    emit(event: 'error', err: any): boolean;
+}
+
+/**
+ * A local copy of the latest snapshot of the server,
+ * it is downloaded by `exportSnapshot` and kept updated by the `snapshotEvents` subscription,
+ * it is downloaded again after reorgs and reconnections,
+ * errors other than reorging and disconnection reject `init` or are emitted as `error` after it
+ */
+export class SnapshotMirror extends EventEmitter {
+    private local?: Local;
+    private subscription?: string;
+
+    // events received while downloading the snapshot
+    private pending?: Event[];
+    // events are processed one by one in the received order
+    private processing: Promise<void> = Promise.resolve();
+
+    private syncing?: Promise<void>;
+    // whether the downloading snapshot is outdated
+    private dirty = false;
+    private stopped = false;
+    // errors are emitted after the first sync
+    private initialized = false;
+
+    constructor(private client: OysterClient, private jsonrpc: JSONRPCWebSocket, private sdk: SynFuturesV3) {
+        super();
+    }
+
+    /**
+     * Local snapshot, `undefined` while syncing
+     */
+    get snapshot() {
+        return this.pending ? undefined : this.local?.snapshot;
+    }
+
+    /**
+     * Position of the last processed event, `undefined` while syncing
+     */
+    get position() {
+        return this.pending ? undefined : this.local?.position;
+    }
+
+    private onNotify = (method: string, params: any) => {
+        if (method !== 'subscription' || params.subscription !== this.subscription) {
+            return;
+        }
+
+        const notification: SnapshotEventNotification = params.result;
+
+        if ('reorgBlockNumber' in notification) {
+            this.resync();
+        } else if (this.pending) {
+            this.pending.push(notification);
+        } else {
+            this.enqueue(notification);
+        }
+    };
+
+    private onReconnected = (source: ConnectionSource) => {
+        if (source === 'websocket') {
+            // the subscription is bound to the old connection and events may have been missed
+            this.subscription = undefined;
+            this.resync();
+        }
+    };
+
+    // process the event on the current local snapshot
+    private enqueue({ log, name, args }: Event) {
+        const local = this.local;
+
+        if (!local) {
+            return;
+        }
+
+        this.processing = this.processing.then(async () => {
+            if (this.local !== local) {
+                // a new snapshot has been downloaded
+                return;
+            }
+
+            if (!isAfter(log, local.position)) {
+                // the event has been processed by the server before exporting the snapshot
+                return;
+            }
+
+            try {
+                await local.snapshot.processParsedLog(
+                    log as ethers.providers.Log,
+                    {
+                        name,
+                        args: deserializeEventArgs(args),
+                    } as unknown as ethers.utils.LogDescription,
+                );
+
+                local.position = {
+                    blockNumber: log.blockNumber,
+                    transactionIndex: log.transactionIndex,
+                    logIndex: log.logIndex,
+                };
+
+                this.emit('updated', { ...log });
+            } catch (err) {
+                // the local snapshot may be broken
+                this.resync();
+            }
+        });
+    }
+
+    // discard the local snapshot and download it again
+    private resync() {
+        if (this.stopped) {
+            return;
+        }
+
+        if (this.local && !this.pending) {
+            this.emit('stale');
+        }
+
+        this.pending = [];
+
+        if (this.syncing) {
+            this.dirty = true;
+            return;
+        }
+
+        this.syncing = this.sync().finally(() => (this.syncing = undefined));
+
+        if (this.initialized) {
+            this.syncing.catch((err) => this.emit('error', err));
+        }
+    }
+
+    private async sync() {
+        while (!this.stopped) {
+            this.dirty = false;
+
+            try {
+                if (this.subscription === undefined) {
+                    this.subscription = await this.jsonrpc.request('subscribe', ['snapshotEvents', undefined]);
+                }
+
+                const { snapshot: serialized, ...position } = await this.client.exportSnapshot();
+
+                if (this.dirty || this.stopped) {
+                    continue;
+                }
+
+                const snapshot = new Snapshot(this.sdk);
+                snapshot.deserialize(serialized);
+
+                const pending = this.pending ?? [];
+
+                this.local = { snapshot, position };
+                this.pending = undefined;
+
+                // the events before the snapshot position are skipped
+                for (const event of pending) {
+                    this.enqueue(event);
+                }
+
+                await this.processing;
+
+                if (this.dirty || this.stopped) {
+                    continue;
+                }
+
+                this.emit('synced', { ...this.local.position });
+
+                return;
+            } catch (err) {
+                if (!isTransient(err)) {
+                    throw err;
+                }
+
+                // the server is reorging or disconnected
+                await sleep(retryDelay);
+            }
+        }
+    }
+
+    /**
+     * Subscribe to the events and download the latest snapshot,
+     * the mirror is stopped if it fails
+     */
+    async init() {
+        this.jsonrpc.on('notify', this.onNotify);
+        this.client.on('reconnected', this.onReconnected);
+
+        this.resync();
+
+        try {
+            await this.syncing;
+        } catch (err) {
+            await this.stop();
+
+            throw err;
+        }
+
+        this.initialized = true;
+    }
+
+    /**
+     * Stop syncing
+     */
+    async stop() {
+        this.stopped = true;
+
+        this.jsonrpc.off('notify', this.onNotify);
+        this.client.off('reconnected', this.onReconnected);
+
+        // the error has been reported
+        await this.syncing?.catch(() => undefined);
+
+        if (this.subscription !== undefined) {
+            const subscription = this.subscription;
+
+            this.subscription = undefined;
+
+            await this.jsonrpc.request('unsubscribe', subscription).catch(() => undefined);
+        }
+    }
+}
@@ -0,0 +1,433 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import amqplib from 'amqplib';
+import Semaphore from 'semaphore-async-await';
+import { JSONRPCWebSocket } from '@synfutures/utils';
+import {
+    SubscribeOrderFilledRequest,
+    UnsubscribeOrderFilledRequest,
+    SubscribePositionChangedRequest,
+    UnsubscribePositionChangedRequest,
+    SubscribeAMMChangedRequest,
+    UnsubscribeAMMChangedRequest,
+    SubscribeLiquidationRiskRequest,
+    UnsubscribeLiquidationRiskRequest,
+    SubscribeSnapshotInvalidatedRequest,
+} from './types';
+
+/**
+ * Notification type and its subscription params
+ */
+export type AMQPTopic =
+    | { type: 'orderFilled'; params: SubscribeOrderFilledRequest | UnsubscribeOrderFilledRequest }
+    | { type: 'positionChanged'; params: SubscribePositionChangedRequest | UnsubscribePositionChangedRequest }
+    | { type: 'ammChanged'; params: SubscribeAMMChangedRequest | UnsubscribeAMMChangedRequest }
+    | { type: 'liquidationRisk'; params: SubscribeLiquidationRiskRequest | UnsubscribeLiquidationRiskRequest };
+
+/**
+ * Notification types that are only delivered through websocket
+ */
+export type WebSocketTopic =
+    | { type: 'snapshotInvalidated'; params: SubscribeSnapshotInvalidatedRequest }
+    | { type: 'snapshotEvents'; params: undefined };
+
+export type Topic = AMQPTopic | WebSocketTopic;
+
+/**
+ * Deliver the notification to the client
+ * @param type Notification type
+ * @param msg Notification content
+ * @param ack Acknowledge the notification
+ */
+export type Deliver = (type: Topic['type'], msg: any, ack: () => void) => void;
+
+/**
+ * Connection whose status is reported to the client
+ */
+export type ConnectionSource = 'websocket' | 'amqp';
+
+/**
+ * Report the connection status change to the client
+ * @param event Status change
+ * @param source Connection
+ */
+export type Report = (event: 'disconnected' | 'reconnected', source: ConnectionSource) => void;
+
+/**
+ * The way notifications arrive at the client
+ */
+export interface Transport<T extends Topic = Topic> {
+    /**
+     * Subscribe to the topic
+     * @param topic Notification topic
+     * @param timeout Request timeout
+     */
+    subscribe(topic: T, timeout: number): Promise<void>;
+
+    /**
+     * Unsubscribe from the topic
+     * @param topic Notification topic
+     * @param timeout Request timeout
+     */
+    unsubscribe(topic: T, timeout: number): Promise<void>;
+
+    /**
+     * Subscribe to all topics again after the websocket is reconnected
+     * @param timeout Request timeout
+     */
+    restore(timeout: number): Promise<void>;
+
+    /**
+     * Initialize the transport
+     */
+    init(): Promise<void>;
+
+    /**
+     * Release all resources
+     */
+    stop(): Promise<void>;
+}
+
+// subscription key of the topic
+function topicKey(topic: Topic) {
+    switch (topic.type) {
+        case 'ammChanged':
+            return `${topic.type}-${topic.params.instrument.toLowerCase()}-${topic.params.expiry}`;
+        case 'snapshotInvalidated':
+            return `${topic.type}-${topic.params.id ?? 'all'}`;
+        case 'snapshotEvents':
+            return topic.type;
+        default:
+            return `${topic.type}-${topic.params.address.toLowerCase()}`;
+    }
+}
+
+// server methods and routing key prefixes of AMQP notifications
+const amqpTopics: { [type in AMQPTopic['type']]: { method: string; prefix: string } } = {
+    orderFilled: { method: 'OrderFilled', prefix: 'order-filled' },
+    positionChanged: { method: 'PositionChanged', prefix: 'position-changed' },
+    ammChanged: { method: 'AMMChanged', prefix: 'amm-changed' },
+    liquidationRisk: { method: 'LiquidationRisk', prefix: 'liquidation-risk' },
+};
+
+// get the notification type by the routing key
+function amqpType(routingKey: string) {
+    const prefix = routingKey.split('.')[0];
+
+    return (Object.keys(amqpTopics) as AMQPTopic['type'][]).find((type) => amqpTopics[type].prefix === prefix);
+}
+
+// max delay of AMQP reconnection
+const maxReconnectDelay = 30000;
+
+/**
+ * Notifications are pushed by the server to the AMQP queue of the client,
+ * they must be acknowledged, otherwise they will be redelivered
+ */
+export class AMQPTransport implements Transport<AMQPTopic> {
+    private connection?: amqplib.Connection;
+    private channel?: amqplib.Channel;
+    // queue of the client, known after the first subscription
+    private queue?: string;
+    // subscribed topics and their reference counts by topic key
+    private topics = new Map<string, { topic: AMQPTopic; size: number }>();
+
+    private lock = new Semaphore(1);
+
+    private stopped = false;
+    private reconnecting?: NodeJS.Timeout;
+
+    constructor(
+        private jsonrpc: JSONRPCWebSocket,
+        private deliver: Deliver,
+        private report: Report,
+        private url: string,
+        private client: string,
+        private reconnectDelay = 1000,
+    ) {}
+
+    // connect to the server and consume the queue again if there are any subscriptions
+    private async connect() {
+        const connection = await amqplib.connect(this.url);
+
+        connection.on('error', () => {
+            // ignore error, it is always followed by the close event
+        });
+
+        connection.on('close', () => {
+            if (this.connection !== connection) {
+                // closed by the transport
+                return;
+            }
+
+            this.connection = undefined;
+            this.channel = undefined;
+
+            this.report('disconnected', 'amqp');
+
+            this.reconnect(this.reconnectDelay);
+        });
+
+        this.connection = connection;
+
+        if (this.queue !== undefined && this.topics.size > 0) {
+            await this.consume(this.queue);
+        }
+    }
+
+    // reconnect after the delay, the delay is doubled on each failure
+    private reconnect(delay: number) {
+        if (this.stopped || this.reconnecting) {
+            return;
+        }
+
+        this.reconnecting = setTimeout(async () => {
+            this.reconnecting = undefined;
+
+            await this.lock.acquire();
+
+            try {
+                await this.connect();
+
+                this.report('reconnected', 'amqp');
+            } catch (err) {
+                this.reconnect(Math.min(delay * 2, maxReconnectDelay));
+            } finally {
+                this.lock.release();
+            }
+        }, delay);
+    }
+
+    // open a channel to consume the queue
+    private async consume(queue: string) {
+        if (!this.connection) {
+            throw new Error('amqp is disconnected');
+        }
+
+        const channel = await this.connection.createChannel();
+
+        await channel.assertQueue(queue);
+
+        channel.consume(queue, (msg) => {
+            if (msg === null) {
+                // ignore canceled message
+                return;
+            }
+
+            const type = amqpType(msg.fields.routingKey);
+
+            if (type === undefined) {
+                // ack unknown message, otherwise it will block the queue
+                channel.ack(msg);
+                return;
+            }
+
+            try {
+                const data = JSON.parse(msg.content.toString());
+
+                this.deliver(type, data, () => channel.ack(msg));
+            } catch (err) {
+                // ignore error
+            }
+        });
+
+        this.channel = channel;
+    }
+
+    // subscribe through the server, the server binds the queue of the client and returns its name
+    private async request({ type, params }: AMQPTopic, timeout: number) {
+        const queue: string = await this.jsonrpc.request(
+            'subscribe' + amqpTopics[type].method,
+            { ...params, client: this.client },
+            timeout,
+        );
+
+        return queue;
+    }
+
+    async subscribe(topic: AMQPTopic, timeout: number) {
+        await this.lock.acquire();
+
+        try {
+            const key = topicKey(topic);
+            const exists = this.topics.get(key);
+
+            if (exists) {
+                // only the first reference is subscribed through the server
+                exists.size++;
+                return;
+            }
+
+            this.queue = await this.request(topic, timeout);
+
+            this.topics.set(key, { topic, size: 1 });
+
+            // the channel will be opened after reconnection if the connection is lost
+            if (!this.channel && this.connection) {
+                await this.consume(this.queue);
+            }
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    async unsubscribe(topic: AMQPTopic, timeout: number) {
+        const { type, params } = topic;
+
+        await this.lock.acquire();
+
+        try {
+            const key = topicKey(topic);
+            const exists = this.topics.get(key);
+
+            if (exists && exists.size > 1) {
+                // other references are still using it
+                exists.size--;
+                return;
+            }
+
+            // topics unknown to the transport are unsubscribed as well,
+            // they may have been persisted by a previous client with the same id
+            await this.jsonrpc.request(
+                'unsubscribe' + amqpTopics[type].method,
+                { ...params, client: this.client },
+                timeout,
+            );
+
+            this.topics.delete(key);
+
+            if (this.channel && this.topics.size === 0) {
+                const channel = this.channel;
+
+                this.channel = undefined;
+
+                await channel.close();
+            }
+        } finally {
+            this.lock.release();
+        }
+    }
+
+    async restore() {
+        // subscriptions are persisted by the server,
+        // the channel is reopened after the AMQP reconnection
+    }
+
+    async init() {
+        await this.connect();
+    }
+
+    async stop() {
+        this.stopped = true;
+
+        if (this.reconnecting) {
+            clearTimeout(this.reconnecting);
+            this.reconnecting = undefined;
+        }
+
+        const connection = this.connection;
+
+        this.connection = undefined;
+
+        await this.channel?.close();
+
+        this.channel = undefined;
+        this.topics.clear();
+
+        await connection?.close();
+    }
+}
+
+/**
+ * Notifications are pushed by the server through websocket JSON RPC notifications,
+ * the acknowledgement is a no-op
+ */
+export class WebSocketTransport implements Transport {
+    // subscribed topics, their subscription ids and reference counts by topic key
+    private subscriptions = new Map<string, { topic: Topic; id: string; size: number }>();
+    // topic type by subscription id
+    private types = new Map<string, Topic['type']>();
+
+    constructor(private jsonrpc: JSONRPCWebSocket, private deliver: Deliver) {}
+
+    private onNotify = (method: string, params: any) => {
+        if (method !== 'subscription') {
+            return;
+        }
+
+        const type = this.types.get(params.subscription);
+
+        if (type) {
+            this.deliver(type, params.result, () => undefined);
+        }
+    };
+
+    async subscribe(topic: Topic, timeout: number) {
+        const key = topicKey(topic);
+        const exists = this.subscriptions.get(key);
+
+        if (exists) {
+            exists.size++;
+            return;
+        }
+
+        const id: string = await this.jsonrpc.request('subscribe', [topic.type, topic.params], timeout);
+
+        const subscription = this.subscriptions.get(key);
+
+        if (subscription) {
+            // subscribed concurrently, only one subscription is kept,
+            // notifications of the redundant one are ignored even if it fails to be removed
+            subscription.size++;
+
+            await this.jsonrpc.request('unsubscribe', id, timeout).catch(() => undefined);
+
+            return;
+        }
+
+        this.subscriptions.set(key, { topic, id, size: 1 });
+        this.types.set(id, topic.type);
+    }
+
+    async unsubscribe(topic: Topic, timeout: number) {
+        const key = topicKey(topic);
+
+        const subscription = this.subscriptions.get(key);
+
+        if (subscription === undefined) {
+            return;
+        }
+
+        if (--subscription.size > 0) {
+            return;
+        }
+
+        this.subscriptions.delete(key);
+        this.types.delete(subscription.id);
+
+        await this.jsonrpc.request('unsubscribe', subscription.id, timeout);
+    }
+
+    async restore(timeout: number) {
+        // subscriptions are bound to the connection, the old ids are invalid
+        this.types.clear();
+
+        for (const subscription of Array.from(this.subscriptions.values())) {
+            const { type, params } = subscription.topic;
+
+            subscription.id = await this.jsonrpc.request('subscribe', [type, params], timeout);
+
+            this.types.set(subscription.id, type);
+        }
+    }
+
+    async init() {
+        this.jsonrpc.on('notify', this.onNotify);
+    }
+
+    async stop() {
+        this.jsonrpc.off('notify', this.onNotify);
+
+        this.subscriptions.clear();
+        this.types.clear();
+    }
+}
@@ -1,17 +1,131 @@
+export type EventPosition = {
+    blockNumber: number;
+    transactionIndex: number;
+    logIndex: number;
+};
+
+// a block number or a block timestamp in seconds
+export type BlockTarget = number | { timestamp: number };
+
+/**
+ * Error codes of snapshot requests returned by the server
+ */
+export enum SnapshotErrorCode {
+    Reorging = 100,
+    Unavailable,
+    Generating,
+    Reorged,
+    Evicted,
+}
+
+export interface StateResponse {
+    storage: {
+        blockNumber: number;
+    };
+    snapshots: {
+        reorging: boolean;
+        position?: EventPosition;
+    };
+}
+
+export type GenerateSnapshotRequest =
+    | {
+          blockNumber: number;
+          transactionIndex?: number;
+          logIndex?: number;
+          persist?: boolean;
+      }
+    | {
+          timestamp: number;
+          persist?: boolean;
+      };
+
+export type GenerateSnapshotResponse = string;
+
+export type ClearSnapshotRequest = string;
+
+export type ClearSnapshotResponse = boolean;
+
+export interface ListSnapshotsResponse {
+    [id: string]: {
+        chainId: number;
+        blockNumber: number;
+        transactionIndex?: number;
+        logIndex?: number;
+        size?: number;
+        owners?: number;
+        shared?: boolean;
+        createdAt?: number;
+        accessedAt?: number;
+        evicted?: { reason: 'capacity' | 'expired' | 'closed'; timestamp: number };
+        pinned?: boolean;
+    };
+}
+
+export interface ExportSnapshotRequest {
+    id?: string;
+}
+
+export interface ExportSnapshotResponse {
+    blockNumber: number;
+    transactionIndex?: number;
+    logIndex?: number;
+    // serialized SDK snapshot
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    snapshot: any;
+}
+
+export interface ListInstrumentsRequest {
+    id?: string;
+}
+
+export type ListInstrumentsResponse = {
+    address: string;
+    symbol: string;
+    base: string;
+    quote: string;
+    index: string;
+    pairs: {
+        expiry: number;
+        status: number;
+        timestamp: number;
+    }[];
+}[];
+
+export interface ListPairsRequest {
+    id?: string;
+    instrument?: string;
+}
+
+export type ListPairsResponse = {
+    instrument: string;
+    symbol: string;
+    expiry: number;
+    status: number;
+    timestamp: number;
+}[];
+
+export interface PositionResponse {
+    balance: string;
+    size: string;
+    entryNotional: string;
+    entrySocialLossIndex: string;
+    entryFundingIndex: string;
+}
+
 export interface QueryAccountRequest {
+    id?: string;
     address: string;
     instrument: string;
     expiry: number;
 }
 
 export interface QueryAccountResponse {
-    position: {
-        balance: string;
-        size: string;
-        entryNotional: string;
-        entrySocialLossIndex: string;
-        entryFundingIndex: string;
-    };
+    onumber: number;
+    rnumber: number;
+    oids: number[];
+    rids: number[];
+    position: PositionResponse;
     orders: {
         [oid: string]: {
             balance: string;
@@ -28,12 +142,189 @@ export interface QueryAccountResponse {
     };
 }
 
+export interface QueryTraderPortfolioRequest {
+    id?: string;
+    address: string;
+}
+
+export type QueryTraderPortfolioResponse = ({ instrument: string; expiry: number } & QueryAccountResponse)[];
+
+export interface QueryRangeRequest {
+    id?: string;
+    address: string;
+    instrument: string;
+    expiry: number;
+    rid?: number;
+}
+
+export type QueryRangeResponse = {
+    rid: number;
+    tickLower: number;
+    tickUpper: number;
+    liquidity: string;
+    balance: string;
+    entryFeeIndex: string;
+    sqrtEntryPX96: string;
+    size: string;
+    fee: string;
+    pnl: string;
+    value: string;
+}[];
+
+export interface QueryAccountHistoryRequest {
+    address: string;
+    instrument: string;
+    expiry: number;
+    from: BlockTarget;
+    to: BlockTarget;
+    // stream id, records are pushed through websocket in chunks before the response if it is specified
+    stream?: string;
+}
+
+export interface AccountHistoryRecord {
+    blockNumber: number;
+    transactionIndex: number;
+    logIndex: number;
+    name: string;
+    account?: QueryAccountResponse;
+}
+
+export interface QueryAccountHistoryResponse {
+    count: number;
+    // `undefined` if the records have been streamed
+    records?: AccountHistoryRecord[];
+    next?: number;
+}
+
+export interface QueryAMMRequest {
+    id?: string;
+    instrument: string;
+    expiry: number;
+}
+
+export interface QueryAMMResponse {
+    timestamp: number;
+    status: number;
+    tick: number;
+    sqrtPX96: string;
+    liquidity: string;
+    totalLiquidity: string;
+    involvedFund: string;
+    openInterests: string;
+    feeIndex: string;
+    protocolFee: string;
+    totalLong: string;
+    totalShort: string;
+    longSocialLossIndex: string;
+    shortSocialLossIndex: string;
+    longFundingIndex: string;
+    shortFundingIndex: string;
+    insuranceFund: string;
+    settlementPrice: string;
+}
+
+export interface QueryDepthRequest {
+    id?: string;
+    instrument: string;
+    expiry: number;
+    levels?: number;
+}
+
+export interface QueryDepthResponse {
+    tick: number;
+    sqrtPX96: string;
+    liquidity: string;
+    bids: { tick: number; size: string }[];
+    asks: { tick: number; size: string }[];
+    ranges: { tick: number; liquidity: string }[];
+}
+
+export interface QueryAMMHistoryRequest {
+    instrument: string;
+    expiry: number;
+    from: BlockTarget;
+    to: BlockTarget;
+    step?: number;
+    // stream id, samples are pushed through websocket in chunks before the response if it is specified
+    stream?: string;
+}
+
+export type AMMHistorySample = {
+    blockNumber: number;
+    name?: string;
+    transactionIndex?: number;
+    logIndex?: number;
+} & QueryAMMResponse;
+
+export interface QueryAMMHistoryResponse {
+    count: number;
+    // `undefined` if the samples have been streamed
+    samples?: AMMHistorySample[];
+    next?: number;
+}
+
+export interface QueryFundingHistoryRequest {
+    instrument: string;
+    expiry: number;
+    from: BlockTarget;
+    to: BlockTarget;
+    step?: number;
+}
+
+export interface QueryFundingHistoryResponse {
+    intervals: {
+        from: number;
+        to: number;
+        fromTimestamp: number;
+        toTimestamp: number;
+        longFunding: string;
+        shortFunding: string;
+        fee: string;
+        longFundingRate?: string;
+        shortFundingRate?: string;
+        feeRate?: string;
+        longFundingAPR?: string;
+        shortFundingAPR?: string;
+        feeAPR?: string;
+    }[];
+}
+
+export interface QueryEventsRequest {
+    from?: number | EventPosition | { timestamp: number };
+    to?: number | EventPosition | { timestamp: number };
+    names?: string | string[];
+    address?: string;
+    trader?: string;
+    limit?: number;
+    cursor?: string;
+}
+
+export interface QueryEventsResponse {
+    events: {
+        id: string;
+        name: string;
+        blockNumber: number;
+        transactionIndex: number;
+        logIndex: number;
+        timestamp: number | null;
+        blockHash: string;
+        txHash: string;
+        address: string;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        args: any;
+    }[];
+    cursor?: string;
+}
+
 export interface SubscribeOrderFilledRequest {
     address: string;
+    // AMQP client id, notifications are delivered to the queue of the client
+    client?: string;
 }
 
 export interface UnsubscribeOrderFilledRequest {
     address: string;
+    client?: string;
 }
 
 export interface OrderFilledNotification {
@@ -43,3 +334,108 @@ export interface OrderFilledNotification {
     tick: number;
     nonce: number;
 }
+
+export interface SubscribePositionChangedRequest {
+    address: string;
+    client?: string;
+}
+
+export interface UnsubscribePositionChangedRequest {
+    address: string;
+    client?: string;
+}
+
+export interface PositionChangedNotification {
+    address: string;
+    instrument: string;
+    expiry: number;
+    event: string;
+    blockNumber: number;
+    transactionIndex: number;
+    logIndex: number;
+    // `undefined` if the account doesn't exist
+    position?: {
+        balance: string;
+        size: string;
+        entryNotional: string;
+        entrySocialLossIndex: string;
+        entryFundingIndex: string;
+    };
+}
+
+export interface SubscribeAMMChangedRequest {
+    instrument: string;
+    expiry: number;
+    // only notify the latest state of each block
+    throttle?: boolean;
+    client?: string;
+}
+
+export interface UnsubscribeAMMChangedRequest {
+    instrument: string;
+    expiry: number;
+    client?: string;
+}
+
+export interface AMMChangedNotification {
+    instrument: string;
+    expiry: number;
+    blockNumber: number;
+    timestamp: number;
+    status: number;
+    tick: number;
+    sqrtPX96: string;
+    liquidity: string;
+    openInterests: string;
+    longFundingIndex: string;
+    shortFundingIndex: string;
+}
+
+export interface SubscribeLiquidationRiskRequest {
+    address: string;
+    // alert when the margin ratio falls below `threshold` times the maintenance margin ratio
+    threshold: number;
+    client?: string;
+}
+
+export interface UnsubscribeLiquidationRiskRequest {
+    address: string;
+    client?: string;
+}
+
+export interface LiquidationRiskNotification {
+    address: string;
+    instrument: string;
+    expiry: number;
+    blockNumber: number;
+    marginRatio: string;
+    maintenanceMarginRatio: number;
+    threshold: number;
+    risky: boolean;
+}
+
+export interface SubscribeSnapshotInvalidatedRequest {
+    // snapshot id, all snapshots if it is not specified
+    id?: string;
+}
+
+export interface SnapshotInvalidatedNotification {
+    id: string;
+    reorgBlockNumber: number;
+}
+
+export type SnapshotEventNotification =
+    | {
+          log: {
+              blockNumber: number;
+              blockHash: string;
+              transactionIndex: number;
+              address: string;
+              logIndex: number;
+          };
+          name: string;
+          // serialized event args, big numbers are encoded as `{ bn: true, value }`
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          args: any;
+      }
+    | { reorgBlockNumber: number };
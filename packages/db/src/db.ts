@@ -27,6 +27,7 @@ export class DB {
 
             for (const model of models) {
                 await model.sync();
+                await model.upgrade?.(this.sequelize);
             }
         })());
     }
@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { FindOptions, CreateOptions, WhereOptions, Attributes, Sequelize, Op } from 'sequelize';
-import { EventIndex, Event, defineEvent } from './model';
+import { EventIndex, Event, defineEvent, eventArgExpression, eventTraderArgs } from './model';
 
 export type EventStructure = Readonly<{
     id: string;
@@ -14,6 +14,7 @@ export type EventStructure = Readonly<{
     status?: number;
     address: string;
     data: object;
+    timestamp?: number | null;
 }>;
 
 export type EventPosition = {
@@ -22,6 +23,20 @@ export type EventPosition = {
     logIndex: number;
 };
 
+/**
+ * Generate the condition of events affecting the trader,
+ * the trader args are compared by the indexed lowercase expressions
+ * @param trader Trader address with `0x` prefix
+ * @returns Where options
+ */
+export function traderCondition(trader: string): WhereOptions<Attributes<Event>> {
+    return {
+        [Op.or]: eventTraderArgs.map((arg) =>
+            Sequelize.where(Sequelize.literal(eventArgExpression(arg)), trader.toLowerCase()),
+        ),
+    };
+}
+
 function concatModelName(chainId: number, index: number) {
     return `events_${chainId}_${index}`;
 }
@@ -429,6 +444,106 @@ export class Events {
         return await model.create(event, options);
     }
 
+    /**
+     * Fill the timestamps of events that don't have one, table by table
+     * @param getTimestamps Resolve the timestamps of block numbers
+     * @param limit Number of block numbers resolved at a time
+     * @param fromBlockNumber Only fill the events at or after the block number
+     * @param stopped Whether to stop filling, checked between batches
+     * @returns Number of updated instances
+     */
+    async fillTimestamps(
+        getTimestamps: (blockNumbers: number[]) => Promise<Map<number, number>>,
+        limit = 100,
+        fromBlockNumber = 0,
+        stopped?: () => boolean,
+    ) {
+        let updated = 0;
+
+        for (const index of this.indexes) {
+            const model = this.getModel(index);
+
+            while (!stopped?.()) {
+                const blockNumbers = (
+                    await model.findAll({
+                        attributes: ['blockNumber'],
+                        where: { blockNumber: { [Op.gte]: fromBlockNumber }, timestamp: null },
+                        group: ['blockNumber'],
+                        order: [['blockNumber', 'ASC']],
+                        limit,
+                    })
+                ).map(({ blockNumber }) => blockNumber);
+
+                if (blockNumbers.length === 0) {
+                    break;
+                }
+
+                const timestamps = await getTimestamps(blockNumbers);
+
+                for (const blockNumber of blockNumbers) {
+                    const timestamp = timestamps.get(blockNumber);
+
+                    if (timestamp === undefined) {
+                        throw new Error('missing timestamp of block: ' + blockNumber);
+                    }
+
+                    const [count] = await model.update({ timestamp }, { where: { blockNumber, timestamp: null } });
+
+                    updated += count;
+                }
+            }
+        }
+
+        return updated;
+    }
+
+    /**
+     * Find the nearest blocks of stored events around the timestamp,
+     * events without a timestamp are ignored
+     * @param timestamp Timestamp in seconds
+     * @returns The last block number at or before the timestamp and the first block number after it,
+     *          `undefined` if there is no such event
+     */
+    async findBlockNumbersAroundTimestamp(timestamp: number) {
+        let before: number | undefined;
+        let after: number | undefined;
+
+        // tables are ordered by block number, search from the latest one
+        for (const index of [...this.indexes].reverse()) {
+            const event = await this.getModel(index).findOne({
+                attributes: ['blockNumber'],
+                where: { timestamp: { [Op.lte]: timestamp } },
+                order: [
+                    ['timestamp', 'DESC'],
+                    ['blockNumber', 'DESC'],
+                ],
+            });
+
+            if (event) {
+                before = event.blockNumber;
+                break;
+            }
+        }
+
+        for (const index of this.indexes) {
+            const event = await this.getModel(index).findOne({
+                attributes: ['blockNumber'],
+                where: { timestamp: { [Op.gt]: timestamp } },
+                order: [
+                    ['timestamp', 'ASC'],
+                    ['blockNumber', 'ASC'],
+                ],
+            });
+
+            if (event) {
+                after = event.blockNumber;
+                break;
+            }
+        }
+
+        return { before, after };
+    }
+
     /**
      * Destroy one instance
      * NOTE: This function must be called serially.
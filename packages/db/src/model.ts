@@ -20,6 +20,19 @@ export declare class Event extends Model {
     data: object;
 }
 
+/**
+ * Event args that hold the affected traders, indexed by the lowercase value
+ */
+export const eventTraderArgs = ['trader', 'target'];
+
+/**
+ * SQL expression of the lowercase value of the event arg
+ * @param arg Arg name
+ */
+export function eventArgExpression(arg: string) {
+    return `lower("data"->>'${arg}')`;
+}
+
 export function defineEvent(sequelize: Sequelize, name: string) {
     return sequelize.define<Event>(
         name,
@@ -84,6 +97,14 @@ export function defineEvent(sequelize: Sequelize, name: string) {
                     fields: ['chainId', 'blockNumber', 'transactionIndex', 'logIndex'],
                     name: `${name}_index`,
                 },
+                {
+                    fields: ['timestamp'],
+                    name: `${name}_timestamp`,
+                },
+                ...eventTraderArgs.map((arg) => ({
+                    fields: [sequelize.literal(eventArgExpression(arg))],
+                    name: `${name}_${arg}`,
+                })),
             ],
         },
     );
@@ -208,6 +229,10 @@ export class Snapshot extends Model {
                     type: DataTypes.JSON,
                     allowNull: false,
                 },
+                pinnedIds: {
+                    type: DataTypes.JSON,
+                    allowNull: true,
+                },
             },
             {
                 indexes: [
@@ -221,12 +246,28 @@ export class Snapshot extends Model {
         );
     }
 
+    static async upgrade(sequelize: Sequelize) {
+        const queryInterface = sequelize.getQueryInterface();
+
+        const columns = await queryInterface.describeTable(Snapshot.getTableName());
+
+        // added for user pinned snapshots
+        if (!columns['pinnedIds']) {
+            await queryInterface.addColumn(Snapshot.getTableName(), 'pinnedIds', {
+                type: DataTypes.JSON,
+                allowNull: true,
+            });
+        }
+    }
+
     id: number;
     chainId: number;
     blockNumber: number;
     transactionIndex: number;
     logIndex: number;
     snapshot: object;
+    // snapshot ids pinned by users, pinned snapshots will not be deleted as outdated
+    pinnedIds: string[] | null;
 }
 
 export class Subscription extends Model {
@@ -3,4 +3,7 @@ import type { ModelStatic, Sequelize } from 'sequelize';
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type ModelCtor = ModelStatic<any> & {
     initialize(sequelize: Sequelize): void;
+
+    // upgrade the existing table after sync, e.g. add new columns
+    upgrade?(sequelize: Sequelize): Promise<void>;
 };
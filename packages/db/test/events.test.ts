@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 import { expect } from 'chai';
 import { Sequelize, Op } from 'sequelize';
-import { Events, Event, EventIndex } from '../src';
+import { Events, Event, EventIndex, traderCondition } from '../src';
 
 describe('Events', function () {
     const db = process.env['TEST_DB'];
@@ -178,10 +178,76 @@ describe('Events', function () {
             expect(results.length).be.eq(to - from + 1);
         });
 
+        it('should fill timestamps succeed', async function () {
+            const requested: number[] = [];
+
+            const updated = await events.fillTimestamps(async (blockNumbers) => {
+                requested.push(...blockNumbers);
+
+                return new Map(blockNumbers.map((blockNumber) => [blockNumber, blockNumber * 10]));
+            }, 4);
+
+            expect(updated).be.eq(34);
+            expect(requested.length).be.eq(34);
+
+            const event = await events.findOne({ where: { blockNumber: 11 } });
+
+            expect(event!.timestamp).be.eq(110);
+
+            // nothing left
+            expect(await events.fillTimestamps(() => Promise.reject(new Error('unexpected')))).be.eq(0);
+        });
+
+        it('should find block numbers around timestamp succeed', async function () {
+            expect(await events.findBlockNumbersAroundTimestamp(115)).be.deep.eq({ before: 11, after: 12 });
+            expect(await events.findBlockNumbersAroundTimestamp(110)).be.deep.eq({ before: 11, after: 12 });
+            expect(await events.findBlockNumbersAroundTimestamp(-1)).be.deep.eq({ before: undefined, after: 0 });
+            expect(await events.findBlockNumbersAroundTimestamp(1000)).be.deep.eq({ before: 33, after: undefined });
+        });
+
         it('should destroy one succeed', async function () {
             expect(await events.destroyOne({ where: { blockNumber: 17 } }));
             expect(events.indexSize).be.eq(4);
             expect(events.instanceSize).be.eq(33);
         });
+
+        it('should find all by trader succeed', async function () {
+            const trader = '0x145D52aD11aFB3c2201dcA5d34977F1f9Ee26644';
+
+            await events.create({ ...createMockEvent(), data: { trader } });
+            await events.create({
+                ...createMockEvent(),
+                data: { trader: '0x0000000000000000000000000000000000000001' },
+            });
+            await events.create({ ...createMockEvent(), data: { target: trader } });
+
+            const results: Event[] = [];
+
+            for await (const _results of events.findAllOrderByBTLASC(0, undefined, traderCondition(trader))) {
+                results.push(..._results);
+            }
+
+            expect(results.map(({ blockNumber }) => blockNumber)).be.deep.eq([34, 36]);
+        });
+
+        it('should fill timestamps from block number until stopped succeed', async function () {
+            const requested: number[] = [];
+
+            const getTimestamps = async (blockNumbers: number[]) => {
+                requested.push(...blockNumbers);
+
+                return new Map(blockNumbers.map((blockNumber) => [blockNumber, blockNumber * 10]));
+            };
+
+            // stopped before the first batch
+            expect(await events.fillTimestamps(getTimestamps, 4, 0, () => true)).be.eq(0);
+            expect(requested).be.deep.eq([]);
+
+            expect(await events.fillTimestamps(getTimestamps, 4, 36)).be.eq(1);
+            expect(requested).be.deep.eq([36]);
+
+            expect(await events.fillTimestamps(getTimestamps, 4)).be.eq(2);
+            expect(requested).be.deep.eq([36, 34, 35]);
+        });
     }
 });
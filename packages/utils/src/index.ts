@@ -2,6 +2,7 @@ export * from './channel';
 export * from './counter';
 export * from './jsonrpc';
 export * from './limited';
+export * from './serialize';
 export * from './tracker';
 export * from './utils';
 export * from './ws';
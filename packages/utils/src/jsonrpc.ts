@@ -157,7 +157,7 @@ export class JSONRPC {
         }
 
         // check version
-        if (json.jsonrpc !== '2.0') {
+        if (typeof json !== 'object' || json === null || json.jsonrpc !== '2.0') {
             throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'invalid version');
         }
 
@@ -179,6 +179,32 @@ export class JSONRPC {
         }
     }
 
+    /**
+     * Parse batch message
+     * @param data Message
+     * @returns Whether it is a batch and the raw JSON content
+     */
+    static parseBatch(data: any): [true, any[]] | [false, any] {
+        let json: any;
+        try {
+            // parse JSON
+            json = typeof data === 'string' ? JSON.parse(data) : data;
+        } catch (err) {
+            throw new JSONRPCError(JSONRPCErrorCode.Parse, 'invalid json format');
+        }
+
+        if (!Array.isArray(json)) {
+            return [false, json];
+        }
+
+        // an empty batch is an invalid request
+        if (json.length === 0) {
+            throw new JSONRPCError(JSONRPCErrorCode.InvalidRequest, 'empty batch');
+        }
+
+        return [true, json];
+    }
+
     /**
      * Get waiting reqeust count
      */
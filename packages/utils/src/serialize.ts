@@ -0,0 +1,52 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BigNumber } from 'ethers';
+
+/**
+ * Serialize parsed event args to JSON, big numbers are encoded as `{ bn: true, value }`
+ * @param obj Event args
+ * @returns Serialized args
+ */
+export function serializeEventArgs(obj: any) {
+    const result: any = {};
+    for (const [k, v] of Object.entries(obj)) {
+        if (v instanceof BigNumber) {
+            result[k] = {
+                bn: true,
+                value: v.toString(),
+            };
+        } else if (typeof v === 'object') {
+            result[k] = serializeEventArgs(v);
+        } else {
+            result[k] = v;
+        }
+    }
+
+    // additional length for args
+    if (obj.length > 0) {
+        result['length'] = obj.length;
+    }
+
+    return result;
+}
+
+/**
+ * Deserialize event args serialized by `serializeEventArgs`
+ * @param obj Serialized args
+ * @returns Event args
+ */
+export function deserializeEventArgs(obj: any) {
+    const result: any = {};
+    for (const [k, v] of Object.entries(obj)) {
+        if (typeof v === 'object' && v !== null) {
+            const _v: any = v;
+            if (_v.bn && _v.value) {
+                result[k] = BigNumber.from(_v.value);
+            } else {
+                result[k] = deserializeEventArgs(v);
+            }
+        } else {
+            result[k] = v;
+        }
+    }
+    return result;
+}
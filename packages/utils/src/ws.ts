@@ -4,6 +4,11 @@ import EventEmitter from 'events';
 import WS from 'ws';
 import { error, warn, debug } from '@synfutures/logger';
 
+/**
+ * Pending requests are rejected with it when the connection is lost
+ */
+export class ConnectionLossError extends Error {}
+
 export interface WebSocketConfig {
     // remote server URL
     url: string;
@@ -252,7 +257,7 @@ export class JSONRPCWebSocket extends EventEmitter {
 
     private onLoss = () => {
         for (const { timeOut, reject } of this.requests.values()) {
-            reject(new Error('loss connection'));
+            reject(new ConnectionLossError('loss connection'));
             clearTimeout(timeOut);
         }
         this.requests.clear();